@@ -3,13 +3,29 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Home from "@/pages/home";
+import AuthPage from "@/pages/auth-page";
+import Sessions from "@/pages/sessions";
+import SessionDetail from "@/pages/session-detail";
+import AdminUsers from "@/pages/admin-users";
+import AdminDenialCodes from "@/pages/admin-denial-codes";
+import AdminCommentTemplates from "@/pages/admin-comment-templates";
+import AdminNoteDictionary from "@/pages/admin-note-dictionary";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Home} />
+      <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/sessions" component={Sessions} />
+      <ProtectedRoute path="/sessions/:id" component={SessionDetail} />
+      <ProtectedRoute path="/admin/users" component={AdminUsers} role="admin" />
+      <ProtectedRoute path="/admin/denial-codes" component={AdminDenialCodes} role="admin" />
+      <ProtectedRoute path="/admin/comment-templates" component={AdminCommentTemplates} role="admin" />
+      <ProtectedRoute path="/admin/note-dictionary" component={AdminNoteDictionary} role="admin" />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +34,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import { AccountStatus } from "@shared/schema";
+import { accountStatusLabels } from "@shared/account-status";
+
+export const accountStatusStyles: Record<AccountStatus, string> = {
+  open: "border-neutral-200 text-neutral-600 bg-neutral-50",
+  in_progress: "border-blue-200 text-blue-700 bg-blue-50",
+  completed: "border-green-200 text-green-700 bg-green-50",
+  needs_follow_up: "border-amber-200 text-amber-700 bg-amber-50",
+};
+
+export default function AccountStatusBadge({ status }: { status: AccountStatus }) {
+  return (
+    <Badge variant="outline" className={accountStatusStyles[status]}>
+      {accountStatusLabels[status]}
+    </Badge>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -12,15 +12,76 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole, roleLabels } from "@shared/roles";
+import { claimBalanceError, formatDollarInput, parseDollars } from "@shared/money";
+import { denialCodeParts, formatDenialCode, groupCodeLabels, groupCodeLiability, splitDenialCode } from "@shared/group-codes";
 import { apiRequest } from "@/lib/queryClient";
-import { PatientAccount, InsertPatientAccount, UpdatePatientAccount } from "@shared/schema";
-import { denialCodeMappings, insuranceOptions, eligibilityStatusOptions, generateRCMComment } from "@/lib/denial-codes";
-import { Plus, X, Stethoscope, Download, Copy, CheckCircle, AlertCircle, ArrowRight, Book, ExternalLink, Bot, ChevronsUpDown, Check, Calendar } from "lucide-react";
+import { AccountComment, AccountCommentEntry, AccountStatus, accountStatuses, CallSession, ClaimLine, DenialCode, DenialCodeOverride, GroupCode, groupCodes, InsertCallSession, InsertComment, PatientAccount, InsertPatientAccount, QuestionAnswer, ReasonCode, UpdatePatientAccount } from "@shared/schema";
+import { insuranceOptions, eligibilityStatusOptions, commentTemplateFor, generateRCMComment, getInsuranceLabel } from "@/lib/denial-codes";
+import { findDenialGuidance, resolveDenialGuidance } from "@shared/denial-guidance";
+import { denialCodeRules, evaluateFieldRules, fieldLabel } from "@shared/field-rules";
+import { accountStatusLabels, completionBlockers } from "@shared/account-status";
+import { commentFormatIds, commentFormats, formatComment, type CommentFormatId, type FormattedComment } from "@shared/comment-formats";
+import { cleanUpNotes, noteDictionaryFor } from "@shared/note-cleanup";
+import { extractNoteEntities, type NoteEntityField } from "@shared/note-entities";
+import type { TranscriptProposal } from "@shared/transcript";
+import { SESSION_STORAGE_KEY, ACCOUNTS_STORAGE_KEY, COMMENT_FORMAT_STORAGE_KEY, saveToSessionStorage, loadFromSessionStorage, clearSessionStorage } from "@/lib/call-sessions";
+import { downloadSessionCsv } from "@/lib/session-export";
+import NewCallDialog from "@/components/new-call-dialog";
+import ClaimLinesGrid from "@/components/claim-lines-grid";
+import RemarkCodePicker from "@/components/remark-code-picker";
+import QuestionScript from "@/components/question-script";
+import QuestionAnswersCard from "@/components/question-answers-card";
+import AccountStatusBadge from "@/components/account-status-badge";
+import CommentHistory from "@/components/comment-history";
+import CommentDiff from "@/components/comment-diff";
+import NoteChanges from "@/components/note-changes";
+import NoteEntityChips from "@/components/note-entity-chips";
+import TranscriptDialog from "@/components/transcript-dialog";
+import { useReasonCodeSearch } from "@/hooks/use-reason-codes";
+import { useCommentContext } from "@/hooks/use-comment-context";
+import { Link } from "wouter";
+import { Plus, X, Stethoscope, Download, Copy, CheckCircle, AlertCircle, ArrowRight, Book, ExternalLink, Bot, ChevronsUpDown, Check, Calendar, History, LogOut, Users, FileText, BookA } from "lucide-react";
+
+const moneyField = z.string().optional().refine(
+  (val) => !val || parseDollars(val) !== undefined,
+  { message: "Enter a dollar amount like 125.00" }
+);
+
+const moneyFields = [
+  "billedAmount",
+  "allowedAmount",
+  "paidAmount",
+  "adjustmentAmount",
+  "patientResponsibility",
+  "outstandingBalance",
+] as const;
+
+// Free-text account fields, saved on blur
+const textFields = [
+  "patientName",
+  "accountNumber",
+  "repName",
+  "callReference",
+  "claimNumber",
+  "authorizationNumber",
+  "additionalNotes",
+] as const;
+
+const moneyFieldLabels: Record<typeof moneyFields[number], string> = {
+  billedAmount: "Billed Amount",
+  allowedAmount: "Allowed Amount",
+  paidAmount: "Paid Amount",
+  adjustmentAmount: "Adjustments",
+  patientResponsibility: "Patient Responsibility",
+  outstandingBalance: "Outstanding Balance",
+};
 
 const formSchema = z.object({
   patientName: z.string().min(1, "Patient name is required"),
@@ -28,8 +89,10 @@ const formSchema = z.object({
   insuranceName: z.string().min(1, "Insurance name is required"),
   repName: z.string().optional(),
   callReference: z.string().optional(),
+  groupCode: z.enum(groupCodes).nullable().optional(),
   denialCode: z.string().optional(),
   denialDescription: z.string().optional(),
+  remarkCodes: z.array(z.string()).optional(),
   dateOfService: z.string().optional().refine(
     (val) => {
       if (!val) return true; // Optional field
@@ -52,54 +115,114 @@ const formSchema = z.object({
       message: "Date must be in MM/DD/YYYY format",
     }
   ),
+  eligibilityTermDate: z.string().optional().refine(
+    (val) => {
+      if (!val) return true; // Optional field
+      // Check if it's in MM/DD/YYYY format
+      const dateRegex = /^(0[1-9]|1[0-2])\/(0[1-9]|[12][0-9]|3[01])\/\d{4}$/;
+      return dateRegex.test(val);
+    },
+    {
+      message: "Date must be in MM/DD/YYYY format",
+    }
+  ),
   eligibilityStatus: z.string().optional(),
   additionalNotes: z.string().optional(),
+  claimNumber: z.string().optional(),
+  authorizationNumber: z.string().optional(),
+  billedAmount: moneyField,
+  allowedAmount: moneyField,
+  paidAmount: moneyField,
+  adjustmentAmount: moneyField,
+  patientResponsibility: moneyField,
+  outstandingBalance: moneyField,
+}).superRefine((data, ctx) => {
+  const balanceError = claimBalanceError(toAccountData(data));
+  if (balanceError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: balanceError, path: ["billedAmount"] });
+  }
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-// Session storage helper functions
-const SESSION_STORAGE_KEY = 'ar-copilot-session';
-const ACCOUNTS_STORAGE_KEY = 'ar-copilot-accounts';
-
-const saveToSessionStorage = (key: string, data: any) => {
-  try {
-    sessionStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.warn('Failed to save to sessionStorage:', error);
+// The form holds amounts as dollar text while accounts store integer cents.
+// Amounts that don't parse are left out rather than overwriting the saved value.
+function toAccountData(data: Partial<FormData>): UpdatePatientAccount {
+  const accountData: Record<string, unknown> = { ...data };
+  for (const field of moneyFields) {
+    if (data[field] === undefined) continue;
+    const cents = parseDollars(data[field]!);
+    if (cents === undefined) {
+      delete accountData[field];
+    } else {
+      accountData[field] = cents;
+    }
   }
-};
+  return accountData as UpdatePatientAccount;
+}
 
-const loadFromSessionStorage = (key: string) => {
-  try {
-    const data = sessionStorage.getItem(key);
-    return data ? JSON.parse(data) : null;
-  } catch (error) {
-    console.warn('Failed to load from sessionStorage:', error);
-    return null;
-  }
-};
+// The reverse of toAccountData: a saved account as the form holds it
+function accountFormValues(account: PatientAccount): FormData {
+  return {
+    patientName: account.patientName || "",
+    accountNumber: account.accountNumber || "",
+    insuranceName: account.insuranceName || "",
+    repName: account.repName || "",
+    callReference: account.callReference || "",
+    groupCode: denialCodeParts(account).groupCode,
+    denialCode: denialCodeParts(account).reasonCode,
+    denialDescription: account.denialDescription || "",
+    remarkCodes: account.remarkCodes ?? [],
+    dateOfService: account.dateOfService || "",
+    eligibilityFromDate: account.eligibilityFromDate || "",
+    eligibilityTermDate: account.eligibilityTermDate || "",
+    eligibilityStatus: account.eligibilityStatus || "",
+    additionalNotes: account.additionalNotes || "",
+    claimNumber: account.claimNumber || "",
+    authorizationNumber: account.authorizationNumber || "",
+    billedAmount: formatDollarInput(account.billedAmount),
+    allowedAmount: formatDollarInput(account.allowedAmount),
+    paidAmount: formatDollarInput(account.paidAmount),
+    adjustmentAmount: formatDollarInput(account.adjustmentAmount),
+    patientResponsibility: formatDollarInput(account.patientResponsibility),
+    outstandingBalance: formatDollarInput(account.outstandingBalance),
+  };
+}
 
-const clearSessionStorage = () => {
+// Pull the message out of an API error ("400: {\"message\":...}")
+function serverMessage(error: Error): string | null {
   try {
-    sessionStorage.removeItem(SESSION_STORAGE_KEY);
-    sessionStorage.removeItem(ACCOUNTS_STORAGE_KEY);
-  } catch (error) {
-    console.warn('Failed to clear sessionStorage:', error);
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message ?? null;
+  } catch {
+    return null;
   }
-};
+}
 
 export default function ARCopilot() {
-  const [sessionId] = useState(() => {
-    const saved = loadFromSessionStorage(SESSION_STORAGE_KEY);
-    return saved || `session-${Date.now()}`;
-  });
+  const [sessionId, setSessionId] = useState<string | null>(() => 
+    loadFromSessionStorage(SESSION_STORAGE_KEY)
+  );
   const [activeTabId, setActiveTabId] = useState<number | null>(null);
   const [generatedComment, setGeneratedComment] = useState("");
+  const [commentFormat, setCommentFormat] = useState<CommentFormatId>(() => {
+    const saved = loadFromSessionStorage(COMMENT_FORMAT_STORAGE_KEY);
+    return commentFormatIds.includes(saved) ? saved : "standard";
+  });
+  // What the format had to cut or drop from the last generated comment
+  const [formatWarnings, setFormatWarnings] = useState<Omit<FormattedComment, "text"> | null>(null);
+  const activeCommentFormat = commentFormats[commentFormat];
+  // The history entry the comment box was last saved as; edits since then aren't saved yet
+  const [savedComment, setSavedComment] = useState<AccountComment | null>(null);
+  const [commentsLoadedFor, setCommentsLoadedFor] = useState<number | null>(null);
+  const [showCommentChanges, setShowCommentChanges] = useState(false);
+  const [showNoteCleanup, setShowNoteCleanup] = useState(false);
+  const pendingCommentSave = useRef<Promise<AccountComment | undefined>>();
+  const [denialSearch, setDenialSearch] = useState("");
   const [persistedAccounts, setPersistedAccounts] = useState<PatientAccount[]>(() => 
     loadFromSessionStorage(ACCOUNTS_STORAGE_KEY) || []
   );
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
   const queryClient = useQueryClient();
 
   const form = useForm<FormData>({
@@ -110,26 +233,74 @@ export default function ARCopilot() {
       insuranceName: "",
       repName: "",
       callReference: "",
+      groupCode: null,
       denialCode: "",
       denialDescription: "",
+      remarkCodes: [],
       dateOfService: "",
       eligibilityFromDate: "",
+      eligibilityTermDate: "",
       eligibilityStatus: "",
       additionalNotes: "",
+      claimNumber: "",
+      authorizationNumber: "",
+      billedAmount: "",
+      allowedAmount: "",
+      paidAmount: "",
+      adjustmentAmount: "",
+      patientResponsibility: "",
+      outstandingBalance: "",
     },
   });
 
+  const { data: currentSession, isError: sessionUnavailable } = useQuery<CallSession>({
+    queryKey: ["/api/sessions", sessionId],
+    enabled: !!sessionId,
+  });
+
   // Use persistent accounts or fallback to API query
   const { data: serverAccounts = [], isLoading } = useQuery<PatientAccount[]>({
     queryKey: ["/api/accounts", sessionId],
-    enabled: persistedAccounts.length === 0, // Only fetch if no persisted data
+    enabled: !!sessionId && persistedAccounts.length === 0, // Only fetch if no persisted data
   });
 
   // Use persisted accounts or server accounts
   const accounts = persistedAccounts.length > 0 ? persistedAccounts : serverAccounts;
 
+  // Mutation to start a call session, ending the current one first
+  const startSessionMutation = useMutation({
+    mutationFn: async (details: InsertCallSession): Promise<CallSession> => {
+      if (sessionId && currentSession?.status === "open") {
+        await apiRequest("POST", `/api/sessions/${sessionId}/close`);
+      }
+      const response = await apiRequest("POST", "/api/sessions", details);
+      return response.json();
+    },
+    onSuccess: (newSession) => {
+      clearSessionStorage();
+      setPersistedAccounts([]);
+      setActiveTabId(null);
+      setGeneratedComment("");
+      form.reset();
+      setSessionId(newSession.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to start a new call", variant: "destructive" });
+    },
+  });
+
+  // Open a session on first load, or when the saved one is gone or already ended
+  useEffect(() => {
+    const needsSession = !sessionId || sessionUnavailable || currentSession?.status === "closed";
+    if (needsSession && !startSessionMutation.isPending) {
+      startSessionMutation.mutate({ callerName: user?.username });
+    }
+  }, [sessionId, sessionUnavailable, currentSession?.status]);
+
   // Save session data whenever it changes
   useEffect(() => {
+    if (!sessionId) return;
     saveToSessionStorage(SESSION_STORAGE_KEY, sessionId);
     if (accounts.length > 0) {
       saveToSessionStorage(ACCOUNTS_STORAGE_KEY, accounts);
@@ -158,27 +329,51 @@ export default function ARCopilot() {
     },
   });
 
+  const applyUpdatedAccount = (updatedAccount: PatientAccount) => {
+    // Update persisted accounts immediately without invalidating queries
+    const updatedAccounts = accounts.map(acc => 
+      acc.id === updatedAccount.id ? updatedAccount : acc
+    );
+    setPersistedAccounts(updatedAccounts);
+    saveToSessionStorage(ACCOUNTS_STORAGE_KEY, updatedAccounts);
+    
+    // Invalidate queries only after a delay to prevent overwriting
+    setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", sessionId] });
+    }, 100);
+  };
+
   // Mutation to update patient account
   const updateAccountMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: UpdatePatientAccount }) => {
       const response = await apiRequest("PATCH", `/api/accounts/${id}`, data);
       return response.json();
     },
-    onSuccess: (updatedAccount) => {
-      // Update persisted accounts immediately without invalidating queries
-      const updatedAccounts = accounts.map(acc => 
-        acc.id === updatedAccount.id ? updatedAccount : acc
-      );
-      setPersistedAccounts(updatedAccounts);
-      saveToSessionStorage(ACCOUNTS_STORAGE_KEY, updatedAccounts);
-      
-      // Invalidate queries only after a delay to prevent overwriting
-      setTimeout(() => {
-        queryClient.invalidateQueries({ queryKey: ["/api/accounts", sessionId] });
-      }, 100);
+    onSuccess: (updatedAccount) => applyUpdatedAccount(updatedAccount),
+    onError: (error: Error, { id, data }) => {
+      // Put the refused fields back to what the server kept, so the form never shows a value that wasn't saved
+      const saved = accounts.find(account => account.id === id);
+      if (saved && id === activeTabId) {
+        const savedValues = accountFormValues(saved);
+        for (const field of Object.keys(data)) {
+          if (field in savedValues) form.setValue(field as keyof FormData, savedValues[field as keyof FormData]);
+        }
+      }
+      // Field rule failures come back as 400s/409s whose message says what to fix
+      const ruleMessage = /^40[09]: /.test(error.message) ? serverMessage(error) : null;
+      toast({ title: "Error", description: ruleMessage ?? "Failed to update patient account", variant: "destructive" });
     },
-    onError: () => {
-      toast({ title: "Error", description: "Failed to update patient account", variant: "destructive" });
+  });
+
+  // Mutation to move an account between statuses; the server refuses "completed" while required fields are missing
+  const setStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: AccountStatus }) => {
+      const response = await apiRequest("PUT", `/api/accounts/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: (updatedAccount) => applyUpdatedAccount(updatedAccount),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: serverMessage(error) ?? "Failed to update account status", variant: "destructive" });
     },
   });
 
@@ -203,6 +398,81 @@ export default function ARCopilot() {
 
   const activeAccount = accounts.find(account => account.id === activeTabId);
 
+  const { data: denialCodes = [] } = useQuery<DenialCode[]>({
+    queryKey: ["/api/denial-codes"],
+  });
+
+  const commentContext = useCommentContext(currentSession?.organizationId);
+
+  const { data: denialCodeOverrides = [] } = useQuery<DenialCodeOverride[]>({
+    queryKey: ["/api/denial-code-overrides"],
+  });
+
+  // Codes with guidance come from our catalog; every other CARC comes from the reference list
+  const { data: carcResults = [] } = useReasonCodeSearch("carc", splitDenialCode(denialSearch).reasonCode);
+  const guidedDenialCodes = denialCodes.filter(entry =>
+    `${formatDenialCode(entry.groupCode, entry.code)} ${entry.description}`.toLowerCase().includes(denialSearch.trim().toLowerCase()));
+
+  const { data: claimLines = [] } = useQuery<ClaimLine[]>({
+    queryKey: ["/api/accounts", activeTabId, "claim-lines"],
+    enabled: !!activeTabId,
+  });
+
+  const { data: questionAnswers = [] } = useQuery<QuestionAnswer[]>({
+    queryKey: ["/api/accounts", activeTabId, "answers"],
+    enabled: !!activeTabId,
+  });
+
+  const { data: accountComments = [], isSuccess: commentsLoaded } = useQuery<AccountCommentEntry[]>({
+    queryKey: ["/api/accounts", activeTabId, "comments"],
+    enabled: !!activeTabId,
+  });
+
+  // Reopen the account's latest comment when its tab is shown
+  useEffect(() => {
+    if (commentsLoadedFor === activeTabId) return;
+    const latest = commentsLoaded ? accountComments[accountComments.length - 1] : undefined;
+    setGeneratedComment(latest?.body ?? "");
+    setSavedComment(latest ?? null);
+    setFormatWarnings(null);
+    if (commentsLoaded) setCommentsLoadedFor(activeTabId);
+  }, [activeTabId, commentsLoaded, accountComments]);
+
+  // The generated comment the comment box started from, which edits are compared against
+  const generatedBase = savedComment?.source === "generated"
+    ? savedComment
+    : accountComments.find(comment => comment.id === savedComment?.generatedFromId);
+  const commentEdited = !!generatedBase && generatedComment !== generatedBase.body;
+
+  // Mutation to add a comment to the account's history
+  const saveCommentMutation = useMutation({
+    mutationFn: async ({ accountId, comment }: { accountId: number; comment: InsertComment }): Promise<AccountComment> => {
+      const response = await apiRequest("POST", `/api/accounts/${accountId}/comments`, comment);
+      return response.json();
+    },
+    onSuccess: (comment) => {
+      if (comment.accountId === activeTabId) setSavedComment(comment);
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", comment.accountId, "comments"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save comment", variant: "destructive" });
+    },
+  });
+
+  // Mutation to mark a saved comment as the one pasted into the billing system
+  const finalizeCommentMutation = useMutation({
+    mutationFn: async (comment: AccountComment): Promise<AccountComment> => {
+      const response = await apiRequest("POST", `/api/accounts/${comment.accountId}/comments/${comment.id}/finalize`);
+      return response.json();
+    },
+    onSuccess: (comment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts", comment.accountId, "comments"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save the final comment", variant: "destructive" });
+    },
+  });
+
   // Load active account data into form (only when switching tabs, not on data updates)
   useEffect(() => {
     if (activeAccount) {
@@ -212,19 +482,7 @@ export default function ARCopilot() {
                                 currentFormData.accountNumber !== activeAccount.accountNumber;
       
       if (isDifferentAccount) {
-        form.reset({
-          patientName: activeAccount.patientName || "",
-          accountNumber: activeAccount.accountNumber || "",
-          insuranceName: activeAccount.insuranceName || "",
-          repName: activeAccount.repName || "",
-          callReference: activeAccount.callReference || "",
-          denialCode: activeAccount.denialCode || "",
-          denialDescription: activeAccount.denialDescription || "",
-          dateOfService: activeAccount.dateOfService || "",
-          eligibilityFromDate: activeAccount.eligibilityFromDate || "",
-          eligibilityStatus: activeAccount.eligibilityStatus || "",
-          additionalNotes: activeAccount.additionalNotes || "",
-        });
+        form.reset(accountFormValues(activeAccount));
       }
     }
   }, [activeTabId]); // Only depend on activeTabId, not activeAccount
@@ -237,6 +495,8 @@ export default function ARCopilot() {
   }, [accounts, activeTabId]);
 
   const addNewTab = async () => {
+    if (!sessionId) return;
+
     // Save current form data before adding new tab
     await saveCurrentFormData();
     
@@ -276,7 +536,7 @@ export default function ARCopilot() {
     if (activeTabId) {
       try {
         const formData = form.getValues();
-        await updateAccountMutation.mutateAsync({ id: activeTabId, data: formData });
+        await updateAccountMutation.mutateAsync({ id: activeTabId, data: toAccountData(formData) });
       } catch (error) {
         console.error("Error saving form data:", error);
       }
@@ -285,37 +545,160 @@ export default function ARCopilot() {
 
   const onSubmit = (data: FormData) => {
     if (activeTabId) {
-      updateAccountMutation.mutate({ id: activeTabId, data });
+      updateAccountMutation.mutate({ id: activeTabId, data: toAccountData(data) });
+    }
+  };
+
+  // Typed fields save when the caller leaves them rather than per keystroke, so one edit is one
+  // PATCH and one audit event instead of a row for every partial value
+  const saveTextField = (name: typeof textFields[number]) => {
+    const value = form.getValues(name) ?? "";
+    if (!activeTabId || value === (activeAccount?.[name] ?? "")) return;
+    updateAccountMutation.mutate({ id: activeTabId, data: { [name]: value } });
+  };
+
+  // Amounts are saved together once they reconcile, so entering them one at a time never trips the balance check
+  const saveFinancials = async () => {
+    if (!activeTabId) return;
+    const valid = await form.trigger([...moneyFields]);
+    if (!valid) return;
+    const values = form.getValues();
+    const amounts = Object.fromEntries(moneyFields.map(field => [field, values[field]]));
+    updateAccountMutation.mutate({ id: activeTabId, data: toAccountData(amounts) });
+  };
+
+  // A chip under the notes fills one field; amounts go through the same reconciled save as typing them
+  const applyNoteEntity = (field: NoteEntityField, value: string) => {
+    form.setValue(field, value, { shouldDirty: true, shouldValidate: true });
+    if ((moneyFields as readonly string[]).includes(field)) {
+      saveFinancials();
+    } else if (activeTabId) {
+      updateAccountMutation.mutate({ id: activeTabId, data: { [field]: value } });
+    }
+  };
+
+  // Catalog entries written for one group also set the group; reference CARCs keep whichever group is selected
+  const handleDenialCodeChange = (denialCode: string, entryGroupCode: GroupCode | null, description: string) => {
+    const groupCode = entryGroupCode ?? form.getValues("groupCode") ?? null;
+    form.setValue("groupCode", groupCode);
+    form.setValue("denialDescription", description);
+    if (activeTabId) {
+      updateAccountMutation.mutate({ 
+        id: activeTabId, 
+        // A new code means a new script, so the previous path no longer applies
+        data: { groupCode, denialCode, denialDescription: description, questionPath: [] } 
+      });
     }
+    setDenialSearch("");
   };
 
-  const handleDenialCodeChange = (denialCode: string) => {
-    const mapping = denialCodeMappings[denialCode];
-    if (mapping) {
-      form.setValue("denialDescription", mapping.description);
-      if (activeTabId) {
-        updateAccountMutation.mutate({ 
-          id: activeTabId, 
-          data: { denialCode, denialDescription: mapping.description } 
-        });
+  // Codes outside our catalog take their description from the CARC reference list, as when picked from the search
+  const carcDescription = async (code: string) => {
+    const params = new URLSearchParams({ type: "carc", q: code });
+    const results = await queryClient.fetchQuery<ReasonCode[]>({ queryKey: [`/api/reason-codes?${params}`] }).catch(() => []);
+    return results.find(result => result.code === code)?.description ?? "";
+  };
+
+  // Values reviewed in the transcript dialog: account fields go in one save, answers the way the questions card saves them.
+  // Throws after reporting a failure so the dialog stays open.
+  const applyTranscript = async (proposals: TranscriptProposal[]) => {
+    if (!activeTabId) return;
+    const data: UpdatePatientAccount = {};
+    for (const proposal of proposals) {
+      if (proposal.kind === "field") {
+        form.setValue(proposal.field, proposal.value, { shouldValidate: true });
+        data[proposal.field] = proposal.value;
+      } else if (proposal.kind === "denialCode") {
+        const entry = findDenialGuidance(denialCodes, proposal.groupCode, proposal.code);
+        const groupCode = proposal.groupCode ?? entry?.groupCode ?? form.getValues("groupCode") ?? null;
+        const denialDescription = entry?.description ?? await carcDescription(proposal.code);
+        form.setValue("groupCode", groupCode);
+        form.setValue("denialCode", proposal.code);
+        form.setValue("denialDescription", denialDescription);
+        // A new code means a new script, so the previous path no longer applies
+        Object.assign(data, { groupCode, denialCode: proposal.code, denialDescription, questionPath: [] });
       }
     }
+    if (Object.keys(data).length > 0) {
+      await updateAccountMutation.mutateAsync({ id: activeTabId, data });
+    }
+
+    const answers = proposals.filter((proposal): proposal is Extract<TranscriptProposal, { kind: "answer" }> => proposal.kind === "answer");
+    try {
+      for (const { question, answerType, value } of answers) {
+        await apiRequest("PUT", `/api/accounts/${activeTabId}/answers`, { question, answerType, value });
+      }
+    } catch (error) {
+      toast({ title: "Error", description: (error as Error).message, variant: "destructive" });
+      throw error;
+    } finally {
+      if (answers.length > 0) queryClient.invalidateQueries({ queryKey: ["/api/accounts", activeTabId, "answers"] });
+    }
+    toast({ title: "Transcript Applied", description: `${proposals.length} value${proposals.length === 1 ? "" : "s"} filled in from the transcript` });
   };
 
   const generateComment = () => {
     const formData = form.getValues();
-    const comment = generateRCMComment(formData);
-    setGeneratedComment(comment);
-    toast({ title: "Comment Generated", description: "RCM comment has been generated successfully" });
+    const comment = generateRCMComment(
+      { ...toAccountData(formData), questionPath: activeAccount?.questionPath ?? [] },
+      claimLines,
+      questionAnswers,
+      commentContext,
+    );
+    const { text, ...warnings } = formatComment(comment, activeCommentFormat);
+    setGeneratedComment(text);
+    setFormatWarnings(warnings);
+    if (activeTabId && text) {
+      const template = commentTemplateFor(toAccountData(formData), commentContext);
+      pendingCommentSave.current = saveCommentMutation.mutateAsync({
+        accountId: activeTabId,
+        comment: { body: text, source: "generated", templateId: template?.id ?? null, format: commentFormat },
+      }).catch(() => undefined);
+    }
+    if (warnings.truncated) {
+      toast({ title: "Comment Truncated", description: `The comment was cut to fit ${activeCommentFormat.label}`, variant: "destructive" });
+    } else {
+      toast({ title: "Comment Generated", description: "RCM comment has been generated successfully" });
+    }
+  };
+
+  // Hand edits join the history once the caller leaves the comment box
+  const saveEditedComment = () => {
+    if (!activeTabId || !generatedComment.trim() || generatedComment === savedComment?.body) return;
+    pendingCommentSave.current = saveCommentMutation.mutateAsync({
+      accountId: activeTabId,
+      comment: { body: generatedComment, source: "edited", generatedFromId: generatedBase?.id ?? null, format: commentFormat },
+    }).catch(() => undefined);
   };
 
+  // Copying is how a comment reaches the billing system, so the copied text becomes the final comment
   const copyComment = async () => {
     try {
       await navigator.clipboard.writeText(generatedComment);
       toast({ title: "Copied", description: "Comment copied to clipboard" });
     } catch (error) {
       toast({ title: "Error", description: "Failed to copy comment", variant: "destructive" });
+      return;
     }
+    if (!activeTabId) return;
+    // A save started by leaving the comment box may still be in flight
+    const pending = await pendingCommentSave.current;
+    const saved = [savedComment, pending].find(comment => comment?.accountId === activeTabId && comment.body === generatedComment);
+    if (saved) {
+      finalizeCommentMutation.mutate(saved);
+    } else {
+      saveCommentMutation.mutate({
+        accountId: activeTabId,
+        comment: { body: generatedComment, source: "edited", generatedFromId: generatedBase?.id ?? null, format: commentFormat, finalized: true },
+      });
+    }
+  };
+
+  const restoreComment = (comment: AccountComment) => {
+    setGeneratedComment(comment.body);
+    setSavedComment(comment);
+    setFormatWarnings(null);
+    pendingCommentSave.current = undefined;
   };
 
   const copyFromTab = (sourceAccountId: string) => {
@@ -334,103 +717,35 @@ export default function ARCopilot() {
     }
   };
 
-  const getInsuranceLabel = (value: string): string => {
-    const option = insuranceOptions.find(opt => opt.value === value);
-    return option ? option.label : value;
-  };
-
-  const exportSession = () => {
-    // Create CSV headers
-    const headers = [
-      'Patient Name',
-      'Account Number', 
-      'Insurance Name',
-      'Rep Name',
-      'Call Reference',
-      'Denial Code',
-      'Denial Description',
-      'Date of Service',
-      'Eligibility From Date',
-      'Eligibility Status',
-      'Additional Notes',
-      'Generated Comment',
-      'Created At',
-      'Updated At'
-    ];
-    
-    // Convert accounts to CSV rows
-    const csvRows = accounts.map(account => {
-      // Generate comment for each account
-      const comment = generateRCMComment({
-        patientName: account.patientName,
-        accountNumber: account.accountNumber,
-        insuranceName: account.insuranceName,
-        repName: account.repName,
-        callReference: account.callReference,
-        denialCode: account.denialCode,
-        dateOfService: account.dateOfService,
-        eligibilityFromDate: account.eligibilityFromDate,
-        eligibilityStatus: account.eligibilityStatus,
-        additionalNotes: account.additionalNotes
-      });
-
-      return [
-        account.patientName || '',
-        account.accountNumber || '',
-        getInsuranceLabel(account.insuranceName) || account.insuranceName || '',
-        account.repName || '',
-        account.callReference || '',
-        account.denialCode || '',
-        account.denialDescription || '',
-        account.dateOfService || '',
-        account.eligibilityFromDate || '',
-        account.eligibilityStatus || '',
-        account.additionalNotes || '',
-        comment || '',
-        account.createdAt ? new Date(account.createdAt).toLocaleString() : '',
-        account.updatedAt ? new Date(account.updatedAt).toLocaleString() : ''
-      ];
-    });
-    
-    // Create CSV content
-    const csvContent = [
-      // Add session info as header comments
-      `# AR Copilot Session Export`,
-      `# Session ID: ${sessionId}`,
-      `# Export Date: ${new Date().toLocaleString()}`,
-      `# Total Accounts: ${accounts.length}`,
-      '',
-      // Add headers
-      headers.join(','),
-      // Add data rows
-      ...csvRows.map(row => 
-        row.map(field => 
-          // Escape fields that contain commas, quotes, or newlines
-          typeof field === 'string' && (field.includes(',') || field.includes('"') || field.includes('\n'))
-            ? `"${field.replace(/"/g, '""')}"` 
-            : field
-        ).join(',')
-      )
-    ].join('\n');
-    
-    // Create and download CSV file
-    const dataBlob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `ar-session-${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    toast({ title: "Session Exported", description: "CSV file has been downloaded with all account data" });
+  const exportSession = async () => {
+    if (!sessionId) return;
+    try {
+      await downloadSessionCsv(sessionId, accounts);
+      toast({ title: "Session Exported", description: "CSV file has been downloaded with all account data" });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to export session", variant: "destructive" });
+    }
   };
 
 
 
-  const currentDenialMapping = form.watch("denialCode") ? denialCodeMappings[form.watch("denialCode")] : null;
+  const selectedGroupCode = form.watch("groupCode") ?? null;
+  const selectedDenialCode = formatDenialCode(selectedGroupCode, form.watch("denialCode"));
+  const selectedPayer = form.watch("insuranceName");
+  const baseDenialMapping = findDenialGuidance(denialCodes, selectedGroupCode, form.watch("denialCode") || "");
+  const payerOverride = baseDenialMapping && selectedPayer
+    ? denialCodeOverrides.find(override => override.denialCodeId === baseDenialMapping.id && override.payer === selectedPayer)
+    : undefined;
+  const currentDenialMapping = baseDenialMapping && resolveDenialGuidance(baseDenialMapping, payerOverride);
+  const fieldRuleResults = currentDenialMapping
+    ? evaluateFieldRules(denialCodeRules(currentDenialMapping), form.watch()).filter(result => result.applies)
+    : [];
+  const cleanedNotes = cleanUpNotes(form.watch("additionalNotes"), noteDictionaryFor(commentContext.noteDictionary ?? [], commentContext.organizationId));
+  const noteEntities = extractNoteEntities(form.watch("additionalNotes"), insuranceOptions);
+  const completionBlocked = completionBlockers(toAccountData(form.watch()), currentDenialMapping).length > 0;
+  const currentLiability = selectedGroupCode ? groupCodeLiability[selectedGroupCode] : null;
 
-  if (isLoading) {
+  if (!sessionId || isLoading) {
     return <div className="flex items-center justify-center h-screen">Loading...</div>;
   }
 
@@ -450,22 +765,62 @@ export default function ARCopilot() {
           </div>
           <div className="flex items-center space-x-4">
             <div className="text-sm text-neutral-600">
-              Session: {new Date().toLocaleTimeString('en-US', { 
+              Session: {new Date(currentSession?.startedAt ?? Date.now()).toLocaleTimeString('en-US', { 
                 hour: 'numeric', 
                 minute: '2-digit', 
                 hour12: true 
               })} IST
             </div>
-            <Button variant="outline" onClick={() => {
-              clearSessionStorage();
-              window.location.reload();
-            }}>
-              New Call
+            <Button variant="outline" asChild>
+              <Link href="/sessions">
+                <History className="mr-2" size={16} />
+                {user && hasRole(user.role, "supervisor") ? "All Sessions" : "History"}
+              </Link>
             </Button>
+            {user && hasRole(user.role, "admin") && (
+              <>
+                <Button variant="outline" asChild>
+                  <Link href="/admin/users">
+                    <Users className="mr-2" size={16} />
+                    Users
+                  </Link>
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link href="/admin/denial-codes">
+                    <Book className="mr-2" size={16} />
+                    Denial Codes
+                  </Link>
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link href="/admin/comment-templates">
+                    <FileText className="mr-2" size={16} />
+                    Templates
+                  </Link>
+                </Button>
+                <Button variant="outline" asChild>
+                  <Link href="/admin/note-dictionary">
+                    <BookA className="mr-2" size={16} />
+                    Dictionary
+                  </Link>
+                </Button>
+              </>
+            )}
+            <NewCallDialog
+              defaultCallerName={currentSession?.callerName || user?.username}
+              isPending={startSessionMutation.isPending}
+              onStart={(details) => startSessionMutation.mutateAsync(details)}
+            />
             <Button variant="outline" onClick={exportSession}>
               <Download className="mr-2" size={16} />
               Export Session
             </Button>
+            <Button variant="ghost" onClick={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+              <LogOut className="mr-2" size={16} />
+              {user?.username}
+              {user && (
+                <Badge variant="outline" className="ml-2">{roleLabels[user.role]}</Badge>
+              )}
+            </Button>
           </div>
         </div>
       </header>
@@ -503,19 +858,24 @@ export default function ARCopilot() {
                       <h3 className="font-medium text-neutral-900 truncate">{account.patientName}</h3>
                       <p className="text-sm text-neutral-600 truncate">{account.accountNumber}</p>
                       <div className="flex items-center mt-2 space-x-2">
-                        {account.denialCode && (
-                          <Badge 
-                            variant="outline" 
-                            className={
-                              account.denialCode === 'CO-27' ? 'border-orange-200 text-orange-700 bg-orange-50' :
-                              account.denialCode === 'CO-97' ? 'border-green-200 text-green-700 bg-green-50' :
-                              account.denialCode === 'PR-204' ? 'border-blue-200 text-blue-700 bg-blue-50' :
-                              'border-neutral-200 text-neutral-700 bg-neutral-50'
-                            }
-                          >
-                            {account.denialCode}
-                          </Badge>
-                        )}
+                        <AccountStatusBadge status={account.status} />
+                        {account.denialCode && (() => {
+                          const { groupCode, reasonCode } = denialCodeParts(account);
+                          const code = formatDenialCode(groupCode, reasonCode);
+                          return (
+                            <Badge 
+                              variant="outline" 
+                              className={
+                                code === 'CO-27' ? 'border-orange-200 text-orange-700 bg-orange-50' :
+                                code === 'CO-97' ? 'border-green-200 text-green-700 bg-green-50' :
+                                code === 'PR-204' ? 'border-blue-200 text-blue-700 bg-blue-50' :
+                                'border-neutral-200 text-neutral-700 bg-neutral-50'
+                              }
+                            >
+                              {code}
+                            </Badge>
+                          );
+                        })()}
                         {account.insuranceName && (
                           <span className="text-xs text-neutral-500">
                             {insuranceOptions.find(opt => opt.value === account.insuranceName)?.label || account.insuranceName}
@@ -554,6 +914,29 @@ export default function ARCopilot() {
                     <p className="text-sm text-neutral-600 mt-1">Complete patient information and call details</p>
                   </div>
                   <div className="flex space-x-3">
+                    <Select
+                      value={activeAccount.status}
+                      onValueChange={(status) => setStatusMutation.mutate({ id: activeAccount.id, status: status as AccountStatus })}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accountStatuses.map((status) => (
+                          <SelectItem key={status} value={status} disabled={status === "completed" && completionBlocked}>
+                            {accountStatusLabels[status]}
+                            {status === "completed" && completionBlocked && " (required fields missing)"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <TranscriptDialog
+                      questions={currentDenialMapping?.questions ?? []}
+                      answerTypes={currentDenialMapping?.questionAnswerTypes ?? {}}
+                      current={form.watch()}
+                      answers={questionAnswers}
+                      onApply={applyTranscript}
+                    />
                     <Select onValueChange={copyFromTab}>
                       <SelectTrigger className="w-48">
                         <SelectValue placeholder="Copy From Tab..." />
@@ -584,11 +967,9 @@ export default function ARCopilot() {
                             <FormItem>
                               <FormLabel>Patient Name *</FormLabel>
                               <FormControl>
-                                <Input {...field} onChange={(e) => {
-                                  field.onChange(e);
-                                  if (activeTabId) {
-                                    updateAccountMutation.mutate({ id: activeTabId, data: { patientName: e.target.value } });
-                                  }
+                                <Input {...field} onBlur={() => {
+                                  field.onBlur();
+                                  saveTextField("patientName");
                                 }} />
                               </FormControl>
                             </FormItem>
@@ -601,11 +982,9 @@ export default function ARCopilot() {
                             <FormItem>
                               <FormLabel>Account Number *</FormLabel>
                               <FormControl>
-                                <Input {...field} onChange={(e) => {
-                                  field.onChange(e);
-                                  if (activeTabId) {
-                                    updateAccountMutation.mutate({ id: activeTabId, data: { accountNumber: e.target.value } });
-                                  }
+                                <Input {...field} onBlur={() => {
+                                  field.onBlur();
+                                  saveTextField("accountNumber");
                                 }} />
                               </FormControl>
                             </FormItem>
@@ -748,11 +1127,9 @@ export default function ARCopilot() {
                             <FormItem>
                               <FormLabel>Rep Name *</FormLabel>
                               <FormControl>
-                                <Input {...field} onChange={(e) => {
-                                  field.onChange(e);
-                                  if (activeTabId) {
-                                    updateAccountMutation.mutate({ id: activeTabId, data: { repName: e.target.value } });
-                                  }
+                                <Input {...field} onBlur={() => {
+                                  field.onBlur();
+                                  saveTextField("repName");
                                 }} />
                               </FormControl>
                             </FormItem>
@@ -765,11 +1142,9 @@ export default function ARCopilot() {
                             <FormItem>
                               <FormLabel>Call Reference # *</FormLabel>
                               <FormControl>
-                                <Input {...field} onChange={(e) => {
-                                  field.onChange(e);
-                                  if (activeTabId) {
-                                    updateAccountMutation.mutate({ id: activeTabId, data: { callReference: e.target.value } });
-                                  }
+                                <Input {...field} onBlur={() => {
+                                  field.onBlur();
+                                  saveTextField("callReference");
                                 }} />
                               </FormControl>
                             </FormItem>
@@ -778,19 +1153,114 @@ export default function ARCopilot() {
                       </CardContent>
                     </Card>
 
+                    {/* Claim Financials Section */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>Claim Financials</CardTitle>
+                      </CardHeader>
+                      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="claimNumber"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Claim Number</FormLabel>
+                              <FormControl>
+                                <Input {...field} onBlur={() => {
+                                  field.onBlur();
+                                  saveTextField("claimNumber");
+                                }} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="authorizationNumber"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Authorization Number</FormLabel>
+                              <FormControl>
+                                <Input {...field} onBlur={() => {
+                                  field.onBlur();
+                                  saveTextField("authorizationNumber");
+                                }} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                        {moneyFields.map((name) => (
+                          <FormField
+                            key={name}
+                            control={form.control}
+                            name={name}
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>{moneyFieldLabels[name]}</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    {...field}
+                                    inputMode="decimal"
+                                    placeholder="0.00"
+                                    onBlur={() => {
+                                      field.onBlur();
+                                      saveFinancials();
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                      </CardContent>
+                    </Card>
+
                     {/* Denial Information Section */}
                     <Card>
                       <CardHeader>
                         <CardTitle>Denial Information</CardTitle>
                       </CardHeader>
                       <CardContent className="space-y-4">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="groupCode"
+                            render={({ field }) => (
+                              <FormItem className="flex flex-col">
+                                <FormLabel>Group Code</FormLabel>
+                                <Select
+                                  value={field.value ?? ""}
+                                  onValueChange={(value) => {
+                                    const groupCode = value as GroupCode;
+                                    field.onChange(groupCode);
+                                    if (activeTabId) {
+                                      updateAccountMutation.mutate({ id: activeTabId, data: { groupCode } });
+                                    }
+                                  }}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue placeholder="Select group..." />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {groupCodes.map((groupCode) => (
+                                      <SelectItem key={groupCode} value={groupCode}>
+                                        {groupCode} - {groupCodeLabels[groupCode]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </FormItem>
+                            )}
+                          />
                           <FormField
                             control={form.control}
                             name="denialCode"
                             render={({ field }) => (
                               <FormItem className="flex flex-col">
-                                <FormLabel>Denial Code *</FormLabel>
+                                <FormLabel>Reason Code (CARC) *</FormLabel>
                                 <Popover>
                                   <PopoverTrigger asChild>
                                     <FormControl>
@@ -807,29 +1277,33 @@ export default function ARCopilot() {
                                     </FormControl>
                                   </PopoverTrigger>
                                 <PopoverContent className="w-[400px] p-0">
-                                  <Command>
-                                    <CommandInput placeholder="Type code or description (e.g., CO-97, bundle, duplicate)..." />
+                                  <Command shouldFilter={false}>
+                                    <CommandInput
+                                      placeholder="Type code or description (e.g., CO-97, bundle, duplicate)..."
+                                      value={denialSearch}
+                                      onValueChange={setDenialSearch}
+                                    />
                                     <CommandEmpty>No denial code found.</CommandEmpty>
                                     <CommandList>
-                                      <CommandGroup>
-                                        {Object.values(denialCodeMappings).map((mapping) => (
+                                      <CommandGroup heading="With guidance">
+                                        {guidedDenialCodes.map((mapping) => (
                                           <CommandItem
-                                            value={`${mapping.code} ${mapping.description}`}
-                                            key={mapping.code}
+                                            value={`${mapping.id}`}
+                                            key={mapping.id}
                                             onSelect={() => {
                                               field.onChange(mapping.code);
-                                              handleDenialCodeChange(mapping.code);
+                                              handleDenialCodeChange(mapping.code, mapping.groupCode, mapping.description);
                                             }}
                                           >
                                             <Check
                                               className={`mr-2 h-4 w-4 ${
-                                                mapping.code === field.value
+                                                mapping.id === currentDenialMapping?.id
                                                   ? "opacity-100"
                                                   : "opacity-0"
                                               }`}
                                             />
                                             <div className="flex flex-col">
-                                              <span className="font-medium">{mapping.code}</span>
+                                              <span className="font-medium">{formatDenialCode(mapping.groupCode, mapping.code)}</span>
                                               <span className="text-sm text-muted-foreground">
                                                 {mapping.description}
                                               </span>
@@ -837,6 +1311,37 @@ export default function ARCopilot() {
                                           </CommandItem>
                                         ))}
                                       </CommandGroup>
+                                      {carcResults.length > 0 && (
+                                        <CommandGroup heading="All CARCs">
+                                          {carcResults.map((reasonCode) => (
+                                            <CommandItem
+                                              value={`carc-${reasonCode.code}`}
+                                              key={reasonCode.id}
+                                              onSelect={() => {
+                                                field.onChange(reasonCode.code);
+                                                handleDenialCodeChange(reasonCode.code, null, reasonCode.description);
+                                              }}
+                                            >
+                                              <Check
+                                                className={`mr-2 h-4 w-4 ${
+                                                  reasonCode.code === field.value
+                                                    ? "opacity-100"
+                                                    : "opacity-0"
+                                                }`}
+                                              />
+                                              <div className="flex flex-col">
+                                                <span className="font-medium">
+                                                  {reasonCode.code}
+                                                  {reasonCode.stopDate && <span className="ml-2 text-xs text-neutral-400">deactivated {reasonCode.stopDate}</span>}
+                                                </span>
+                                                <span className="text-sm text-muted-foreground line-clamp-2">
+                                                  {reasonCode.description}
+                                                </span>
+                                              </div>
+                                            </CommandItem>
+                                          ))}
+                                        </CommandGroup>
+                                      )}
                                     </CommandList>
                                   </Command>
                                 </PopoverContent>
@@ -844,6 +1349,24 @@ export default function ARCopilot() {
                             </FormItem>
                           )}
                         />
+                          <FormField
+                            control={form.control}
+                            name="remarkCodes"
+                            render={({ field }) => (
+                              <FormItem className="flex flex-col">
+                                <FormLabel>Remark Codes (RARC)</FormLabel>
+                                <RemarkCodePicker
+                                  value={field.value ?? []}
+                                  onChange={(remarkCodes) => {
+                                    field.onChange(remarkCodes);
+                                    if (activeTabId) {
+                                      updateAccountMutation.mutate({ id: activeTabId, data: { remarkCodes } });
+                                    }
+                                  }}
+                                />
+                              </FormItem>
+                            )}
+                          />
                         </div>
                         <FormField
                           control={form.control}
@@ -865,6 +1388,9 @@ export default function ARCopilot() {
                       </CardContent>
                     </Card>
 
+                    {/* Claim Lines Section */}
+                    {activeTabId && <ClaimLinesGrid accountId={activeTabId} />}
+
                     {/* Eligibility Information Section */}
                     <Card>
                       <CardHeader>
@@ -964,13 +1490,81 @@ export default function ARCopilot() {
                             </FormItem>
                           )}
                         />
+                        <FormField
+                          control={form.control}
+                          name="eligibilityTermDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Eligibility Term Date</FormLabel>
+                              <FormControl>
+                                <div className="relative">
+                                  <Input 
+                                    placeholder="MM/DD/YYYY" 
+                                    {...field} 
+                                    onChange={(e) => {
+                                      let value = e.target.value;
+                                      // Auto-format MM/DD/YYYY
+                                      value = value.replace(/\D/g, ''); // Remove non-digits
+                                      if (value.length >= 3) {
+                                        value = value.slice(0, 2) + '/' + value.slice(2);
+                                      }
+                                      if (value.length >= 6) {
+                                        value = value.slice(0, 5) + '/' + value.slice(5, 9);
+                                      }
+                                      field.onChange(value);
+                                      if (activeTabId && value.length === 10) {
+                                        updateAccountMutation.mutate({ id: activeTabId, data: { eligibilityTermDate: value } });
+                                      }
+                                    }}
+                                    maxLength={10}
+                                    className="pr-10"
+                                  />
+                                  <Popover>
+                                    <PopoverTrigger asChild>
+                                      <Button
+                                        variant="outline"
+                                        size="icon"
+                                        className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-accent"
+                                        type="button"
+                                      >
+                                        <Calendar className="h-4 w-4" />
+                                      </Button>
+                                    </PopoverTrigger>
+                                    <PopoverContent className="w-auto p-0" align="start">
+                                      <CalendarComponent
+                                        mode="single"
+                                        selected={field.value ? new Date(field.value) : undefined}
+                                        onSelect={(date) => {
+                                          if (date) {
+                                            const formattedDate = `${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getDate()).padStart(2, '0')}/${date.getFullYear()}`;
+                                            field.onChange(formattedDate);
+                                            if (activeTabId) {
+                                              updateAccountMutation.mutate({ id: activeTabId, data: { eligibilityTermDate: formattedDate } });
+                                            }
+                                          }
+                                        }}
+                                        disabled={(date) => date < new Date("1900-01-01")}
+                                        initialFocus
+                                      />
+                                    </PopoverContent>
+                                  </Popover>
+                                </div>
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
                       </CardContent>
                     </Card>
 
                     {/* Additional Notes Section */}
                     <Card>
-                      <CardHeader>
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0">
                         <CardTitle>Additional Notes</CardTitle>
+                        {cleanedNotes.text && (
+                          <Button type="button" variant="ghost" size="sm" onClick={() => setShowNoteCleanup(!showNoteCleanup)}>
+                            {showNoteCleanup ? "Hide changes" : `Explain changes (${cleanedNotes.changes.length})`}
+                          </Button>
+                        )}
                       </CardHeader>
                       <CardContent>
                         <FormField
@@ -983,22 +1577,44 @@ export default function ARCopilot() {
                                   {...field} 
                                   rows={4} 
                                   placeholder="Enter any additional notes or observations from the call..."
-                                  onChange={(e) => {
-                                    field.onChange(e);
-                                    if (activeTabId) {
-                                      updateAccountMutation.mutate({ id: activeTabId, data: { additionalNotes: e.target.value } });
-                                    }
+                                  onBlur={() => {
+                                    field.onBlur();
+                                    saveTextField("additionalNotes");
                                   }}
                                 />
                               </FormControl>
                             </FormItem>
                           )}
                         />
+                        <NoteEntityChips entities={noteEntities} values={form.watch()} onApply={applyNoteEntity} />
+                        {showNoteCleanup && cleanedNotes.text && (
+                          <div className="mt-3 space-y-2">
+                            <div className="text-xs font-medium text-neutral-600">As they appear in the comment</div>
+                            <p className="rounded-md border border-neutral-200 bg-neutral-50 p-3 text-sm">{cleanedNotes.text}</p>
+                            <NoteChanges changes={cleanedNotes.changes} />
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
 
                     {/* Generate Comment Section */}
-                    <div className="flex justify-center pt-6">
+                    <div className="flex justify-center items-center space-x-3 pt-6">
+                      <Select
+                        value={commentFormat}
+                        onValueChange={(value) => {
+                          setCommentFormat(value as CommentFormatId);
+                          saveToSessionStorage(COMMENT_FORMAT_STORAGE_KEY, value);
+                        }}
+                      >
+                        <SelectTrigger className="w-60 h-11">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {commentFormatIds.map((id) => (
+                            <SelectItem key={id} value={id}>{commentFormats[id].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                       <Button onClick={generateComment} size="lg" className="bg-secondary hover:bg-green-700">
                         <Bot className="mr-2" size={18} />
                         Generate RCM Comment
@@ -1008,28 +1624,60 @@ export default function ARCopilot() {
                     {/* Generated Comment Section */}
                     {generatedComment && (
                       <Card className="bg-primary-light border-primary/20">
-                        <CardHeader>
+                        <CardHeader className="flex flex-row items-center justify-between space-y-0">
                           <CardTitle>Generated RCM Comment</CardTitle>
+                          {commentEdited && (
+                            <div className="flex items-center space-x-2">
+                              <Badge variant="outline" className="border-amber-200 text-amber-700 bg-amber-50">Edited</Badge>
+                              <Button type="button" variant="ghost" size="sm" onClick={() => setShowCommentChanges(!showCommentChanges)}>
+                                {showCommentChanges ? "Hide changes" : "Show changes"}
+                              </Button>
+                            </div>
+                          )}
                         </CardHeader>
                         <CardContent>
                           <div className="bg-white rounded-lg p-4 border">
+                            {formatWarnings?.truncated && (
+                              <div className="flex items-center text-xs text-red-600 mb-2">
+                                <AlertCircle className="mr-1" size={12} />
+                                Content was cut to fit {activeCommentFormat.label}; check nothing important was lost
+                              </div>
+                            )}
+                            {formatWarnings && formatWarnings.droppedCharacters.length > 0 && (
+                              <div className="flex items-center text-xs text-orange-700 mb-2">
+                                <AlertCircle className="mr-1" size={12} />
+                                Removed characters the system doesn't accept: {formatWarnings.droppedCharacters.join(" ")}
+                              </div>
+                            )}
                             <Textarea
                               value={generatedComment}
                               onChange={(e) => setGeneratedComment(e.target.value)}
-                              rows={3}
-                              className="resize-none border-none focus:outline-none"
+                              onBlur={saveEditedComment}
+                              rows={activeCommentFormat.lineWidth ? 8 : 3}
+                              className={`resize-none border-none focus:outline-none ${activeCommentFormat.lineWidth ? "font-mono text-xs" : ""}`}
                             />
                             <div className="flex items-center justify-between mt-3 pt-3 border-t border-neutral-200">
-                              <span className="text-xs text-neutral-500">Last updated: Just now</span>
+                              <span className="text-xs text-neutral-500">
+                                {generatedComment.length}
+                                {activeCommentFormat.maxLength ? ` / ${activeCommentFormat.maxLength}` : ""} characters
+                              </span>
                               <Button onClick={copyComment}>
                                 <Copy className="mr-2" size={16} />
                                 Copy Comment
                               </Button>
                             </div>
                           </div>
+                          {commentEdited && showCommentChanges && (
+                            <div className="mt-3">
+                              <div className="text-xs font-medium text-neutral-600 mb-1">Changes from the generated comment</div>
+                              <CommentDiff generated={generatedBase!.body} final={generatedComment} />
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
                     )}
+
+                    <CommentHistory comments={accountComments} onRestore={restoreComment} />
                   </form>
                 </Form>
               </div>
@@ -1056,7 +1704,12 @@ export default function ARCopilot() {
             </div>
             <p className="text-sm text-neutral-600">
               {currentDenialMapping ? (
-                <>Dynamic guidance for <Badge variant="outline" className="ml-1 border-orange-200 text-orange-700 bg-orange-50">{currentDenialMapping.code}</Badge> denial code</>
+                <>
+                  Dynamic guidance for <Badge variant="outline" className="ml-1 border-orange-200 text-orange-700 bg-orange-50">{selectedDenialCode}</Badge> denial code
+                  {payerOverride && <> with {getInsuranceLabel(payerOverride.payer)} overrides</>}
+                </>
+              ) : selectedDenialCode ? (
+                `No guidance has been written for ${selectedDenialCode} yet`
               ) : (
                 "Select a denial code to see dynamic guidance"
               )}
@@ -1064,29 +1717,40 @@ export default function ARCopilot() {
           </div>
           
           <ScrollArea className="flex-1 p-4 space-y-6">
+            {/* Liability Section: depends only on the group code */}
+            {selectedGroupCode && currentLiability && (
+              <Card className="bg-purple-50 border-purple-200 mb-6">
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center text-base">
+                    <AlertCircle className="text-purple-600 mr-2" size={16} />
+                    {selectedGroupCode} - {groupCodeLabels[selectedGroupCode]}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-neutral-700">{currentLiability.summary}</p>
+                </CardContent>
+              </Card>
+            )}
             {currentDenialMapping ? (
               <>
-                {/* Questions to Ask Section */}
-                <Card className="bg-orange-50 border-orange-200">
-                  <CardHeader className="pb-3">
-                    <CardTitle className="flex items-center text-base">
-                      <AlertCircle className="text-orange-600 mr-2" size={16} />
-                      Questions to Ask Rep
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <ul className="space-y-2 text-sm">
-                      {currentDenialMapping.questions.map((question, index) => (
-                        <li key={index} className="flex items-start space-x-2">
-                          <span className="w-5 h-5 bg-orange-200 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
-                            <span className="text-orange-700 text-xs font-bold">{index + 1}</span>
-                          </span>
-                          <span className="text-neutral-700">"{question}"</span>
-                        </li>
-                      ))}
-                    </ul>
-                  </CardContent>
-                </Card>
+                {/* Questions to Ask Section: a branching script when the code has one, otherwise a flat list */}
+                {currentDenialMapping.questionTree ? (
+                  <QuestionScript
+                    tree={currentDenialMapping.questionTree}
+                    path={activeAccount?.questionPath ?? []}
+                    onChange={(questionPath) => {
+                      if (activeTabId) {
+                        updateAccountMutation.mutate({ id: activeTabId, data: { questionPath } });
+                      }
+                    }}
+                  />
+                ) : activeTabId ? (
+                  <QuestionAnswersCard
+                    accountId={activeTabId}
+                    questions={currentDenialMapping.questions}
+                    answerTypes={currentDenialMapping.questionAnswerTypes}
+                  />
+                ) : null}
 
                 {/* Required Fields Section */}
                 <Card className="bg-blue-50 border-blue-200">
@@ -1098,19 +1762,19 @@ export default function ARCopilot() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-2">
-                      {currentDenialMapping.requiredFields.map((fieldName) => {
-                        const formValue = form.watch(fieldName as keyof FormData);
-                        const isComplete = Boolean(formValue);
-                        return (
-                          <div key={fieldName} className="flex items-center justify-between">
-                            <span className="text-sm text-neutral-700 capitalize">
-                              {fieldName.replace(/([A-Z])/g, ' $1').replace(/^./, str => str.toUpperCase())}
+                      {fieldRuleResults.map((result, index) => (
+                        <div key={index} className="space-y-0.5">
+                          <div className="flex items-center justify-between">
+                            <span className="text-sm text-neutral-700">
+                              {result.rule.type === "required"
+                                ? fieldLabel(result.rule.field)
+                                : `${fieldLabel(result.rule.field)} ${result.rule.type} ${fieldLabel(result.rule.other)}`}
                             </span>
                             <Badge 
-                              variant={isComplete ? "default" : "outline"}
-                              className={isComplete ? "bg-green-100 text-green-700 border-green-200" : "border-neutral-300 text-neutral-500"}
+                              variant={result.passed ? "default" : "outline"}
+                              className={result.passed ? "bg-green-100 text-green-700 border-green-200" : "border-neutral-300 text-neutral-500"}
                             >
-                              {isComplete ? (
+                              {result.passed ? (
                                 <>
                                   <CheckCircle className="mr-1" size={12} />
                                   Complete
@@ -1120,8 +1784,14 @@ export default function ARCopilot() {
                               )}
                             </Badge>
                           </div>
-                        );
-                      })}
+                          {result.condition && (
+                            <div className="text-xs text-blue-700">Because {result.condition}</div>
+                          )}
+                          {result.reason && (result.rule.type !== "required" || result.rule.message) && (
+                            <div className="text-xs text-red-600">{result.reason}</div>
+                          )}
+                        </div>
+                      ))}
                     </div>
                   </CardContent>
                 </Card>
@@ -1136,7 +1806,7 @@ export default function ARCopilot() {
                   </CardHeader>
                   <CardContent>
                     <ul className="space-y-2 text-sm text-neutral-700">
-                      {currentDenialMapping.nextSteps.map((step, index) => (
+                      {[...currentDenialMapping.nextSteps, ...(currentLiability?.nextSteps ?? [])].map((step, index) => (
                         <li key={index} className="flex items-start space-x-2">
                           <div className="w-1.5 h-1.5 bg-green-600 rounded-full mt-2 flex-shrink-0"></div>
                           <span>{step}</span>
@@ -1157,13 +1827,13 @@ export default function ARCopilot() {
                   <CardContent>
                     <div className="space-y-2">
                       <a 
-                        href={`https://www.google.com/search?q="${currentDenialMapping.code}"+denial+code+healthcare+RCM`}
+                        href={`https://www.google.com/search?q="${selectedDenialCode}"+denial+code+healthcare+RCM`}
                         target="_blank"
                         rel="noopener noreferrer" 
                         className="block text-sm text-primary hover:text-primary-dark transition-colors"
                       >
                         <ExternalLink className="mr-1 inline" size={12} />
-                        {currentDenialMapping.code} Denial Code Reference
+                        {selectedDenialCode} Denial Code Reference
                       </a>
                       <a 
                         href="https://www.cms.gov/medicare/coordination-benefits-recovery/overview"
@@ -0,0 +1,257 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ClaimLine, InsertClaimLine, UpdateClaimLine } from "@shared/schema";
+import { formatCents, formatDollarInput, parseDollars } from "@shared/money";
+import { Plus, X } from "lucide-react";
+
+interface ClaimLinesGridProps {
+  accountId: number;
+  readOnly?: boolean;
+}
+
+type LineDraft = {
+  cptCode: string;
+  modifiers: string;
+  units: string;
+  billedAmount: string;
+  allowedAmount: string;
+  paidAmount: string;
+  denialCodes: string;
+};
+
+const emptyDraft: LineDraft = {
+  cptCode: "",
+  modifiers: "",
+  units: "1",
+  billedAmount: "",
+  allowedAmount: "",
+  paidAmount: "",
+  denialCodes: "",
+};
+
+const toList = (value: string) =>
+  value.split(/[,\s]+/).map(item => item.trim().toUpperCase()).filter(Boolean);
+
+// Turn a row of text inputs into API fields; returns an error message when a value cannot be parsed
+function parseDraft(draft: Partial<LineDraft>): { data: UpdateClaimLine } | { error: string } {
+  const data: UpdateClaimLine = {};
+  if (draft.cptCode !== undefined) data.cptCode = draft.cptCode.trim().toUpperCase();
+  if (draft.modifiers !== undefined) data.modifiers = toList(draft.modifiers);
+  if (draft.denialCodes !== undefined) data.denialCodes = toList(draft.denialCodes);
+  if (draft.units !== undefined) {
+    const units = parseInt(draft.units, 10);
+    if (isNaN(units)) return { error: "Units must be a whole number" };
+    data.units = units;
+  }
+  for (const field of ["billedAmount", "allowedAmount", "paidAmount"] as const) {
+    if (draft[field] === undefined) continue;
+    const cents = parseDollars(draft[field]!);
+    if (cents === undefined) return { error: "Amounts must be dollar values like 125.00" };
+    data[field] = cents;
+  }
+  return { data };
+}
+
+function EditableCell({ value, onCommit, className, placeholder }: {
+  value: string;
+  onCommit: (value: string) => void;
+  className?: string;
+  placeholder?: string;
+}) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <Input
+      value={draft}
+      placeholder={placeholder}
+      className={`h-8 ${className ?? ""}`}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onCommit(draft);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          e.currentTarget.blur();
+        }
+      }}
+    />
+  );
+}
+
+export default function ClaimLinesGrid({ accountId, readOnly }: ClaimLinesGridProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/accounts", accountId, "claim-lines"];
+  const [newLine, setNewLine] = useState<LineDraft>(emptyDraft);
+
+  const { data: lines = [] } = useQuery<ClaimLine[]>({ queryKey });
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createLineMutation = useMutation({
+    mutationFn: async (data: Omit<InsertClaimLine, "accountId">) => {
+      const response = await apiRequest("POST", `/api/accounts/${accountId}/claim-lines`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setNewLine(emptyDraft);
+    },
+    onError: showError,
+  });
+
+  const updateLineMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateClaimLine }) => {
+      const response = await apiRequest("PATCH", `/api/claim-lines/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: showError,
+  });
+
+  const deleteLineMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/claim-lines/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: showError,
+  });
+
+  const commit = (id: number, draft: Partial<LineDraft>) => {
+    const parsed = parseDraft(draft);
+    if ("error" in parsed) {
+      toast({ title: "Invalid value", description: parsed.error, variant: "destructive" });
+      return;
+    }
+    updateLineMutation.mutate({ id, data: parsed.data });
+  };
+
+  const addLine = () => {
+    const parsed = parseDraft(newLine);
+    if ("error" in parsed) {
+      toast({ title: "Invalid value", description: parsed.error, variant: "destructive" });
+      return;
+    }
+    const lineNumber = lines.reduce((max, line) => Math.max(max, line.lineNumber), 0) + 1;
+    createLineMutation.mutate({ ...parsed.data, cptCode: parsed.data.cptCode ?? "", lineNumber });
+  };
+
+  const total = (field: "billedAmount" | "allowedAmount" | "paidAmount") =>
+    lines.reduce((sum, line) => sum + (line[field] ?? 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Claim Lines</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">#</TableHead>
+              <TableHead>CPT</TableHead>
+              <TableHead>Modifiers</TableHead>
+              <TableHead className="w-16">Units</TableHead>
+              <TableHead>Billed</TableHead>
+              <TableHead>Allowed</TableHead>
+              <TableHead>Paid</TableHead>
+              <TableHead>Denial Codes</TableHead>
+              {!readOnly && <TableHead className="w-8" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line) => (
+              <TableRow key={line.id} className={line.denialCodes.length > 0 ? "bg-orange-50" : undefined}>
+                <TableCell>{line.lineNumber}</TableCell>
+                {readOnly ? (
+                  <>
+                    <TableCell>{line.cptCode}</TableCell>
+                    <TableCell>{line.modifiers.join(", ")}</TableCell>
+                    <TableCell>{line.units}</TableCell>
+                    <TableCell>{formatCents(line.billedAmount)}</TableCell>
+                    <TableCell>{formatCents(line.allowedAmount)}</TableCell>
+                    <TableCell>{formatCents(line.paidAmount)}</TableCell>
+                    <TableCell>{line.denialCodes.join(", ")}</TableCell>
+                  </>
+                ) : (
+                  <>
+                    <TableCell><EditableCell value={line.cptCode} onCommit={(cptCode) => commit(line.id, { cptCode })} /></TableCell>
+                    <TableCell><EditableCell value={line.modifiers.join(", ")} onCommit={(modifiers) => commit(line.id, { modifiers })} /></TableCell>
+                    <TableCell><EditableCell value={String(line.units)} onCommit={(units) => commit(line.id, { units })} /></TableCell>
+                    <TableCell><EditableCell value={formatDollarInput(line.billedAmount)} onCommit={(billedAmount) => commit(line.id, { billedAmount })} /></TableCell>
+                    <TableCell><EditableCell value={formatDollarInput(line.allowedAmount)} onCommit={(allowedAmount) => commit(line.id, { allowedAmount })} /></TableCell>
+                    <TableCell><EditableCell value={formatDollarInput(line.paidAmount)} onCommit={(paidAmount) => commit(line.id, { paidAmount })} /></TableCell>
+                    <TableCell><EditableCell value={line.denialCodes.join(", ")} onCommit={(denialCodes) => commit(line.id, { denialCodes })} /></TableCell>
+                    <TableCell>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 text-neutral-400 hover:text-neutral-600"
+                        onClick={() => deleteLineMutation.mutate(line.id)}
+                      >
+                        <X size={14} />
+                      </Button>
+                    </TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+            {!readOnly && (
+              <TableRow
+                onKeyDown={(e) => {
+                  // The grid sits inside the account form, so Enter must not submit it
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    if (newLine.cptCode) addLine();
+                  }
+                }}
+              >
+                <TableCell className="text-neutral-400">+</TableCell>
+                <TableCell><Input className="h-8" placeholder="99213" value={newLine.cptCode} onChange={(e) => setNewLine({ ...newLine, cptCode: e.target.value })} /></TableCell>
+                <TableCell><Input className="h-8" placeholder="25, 59" value={newLine.modifiers} onChange={(e) => setNewLine({ ...newLine, modifiers: e.target.value })} /></TableCell>
+                <TableCell><Input className="h-8" value={newLine.units} onChange={(e) => setNewLine({ ...newLine, units: e.target.value })} /></TableCell>
+                <TableCell><Input className="h-8" placeholder="0.00" value={newLine.billedAmount} onChange={(e) => setNewLine({ ...newLine, billedAmount: e.target.value })} /></TableCell>
+                <TableCell><Input className="h-8" placeholder="0.00" value={newLine.allowedAmount} onChange={(e) => setNewLine({ ...newLine, allowedAmount: e.target.value })} /></TableCell>
+                <TableCell><Input className="h-8" placeholder="0.00" value={newLine.paidAmount} onChange={(e) => setNewLine({ ...newLine, paidAmount: e.target.value })} /></TableCell>
+                <TableCell><Input className="h-8" placeholder="CO-97, CO-45" value={newLine.denialCodes} onChange={(e) => setNewLine({ ...newLine, denialCodes: e.target.value })} /></TableCell>
+                <TableCell>
+                  <Button
+                    type="button"
+                    size="sm"
+                    className="h-6 w-6 p-0 rounded-full"
+                    disabled={!newLine.cptCode || createLineMutation.isPending}
+                    onClick={addLine}
+                  >
+                    <Plus size={14} />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+          {lines.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Total</TableCell>
+                <TableCell>{formatCents(total("billedAmount"))}</TableCell>
+                <TableCell>{formatCents(total("allowedAmount"))}</TableCell>
+                <TableCell>{formatCents(total("paidAmount"))}</TableCell>
+                <TableCell colSpan={readOnly ? 1 : 2} />
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,18 @@
+import { diffWords } from "@shared/text-diff";
+
+// What the caller changed in a generated comment: removed wording struck through, added wording highlighted
+export default function CommentDiff({ generated, final }: { generated: string; final: string }) {
+  return (
+    <p className="bg-white rounded-lg p-4 border text-sm whitespace-pre-wrap">
+      {diffWords(generated, final).map((part, index) =>
+        part.kind === "added" ? (
+          <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+        ) : part.kind === "removed" ? (
+          <del key={index} className="bg-red-100 text-red-700">{part.text}</del>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,63 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { AccountCommentEntry } from "@shared/schema";
+import { commentFormatIds, commentFormats } from "@shared/comment-formats";
+import { lastFinalizedComment } from "@/lib/denial-codes";
+import { CheckCircle, History, RotateCcw } from "lucide-react";
+
+interface CommentHistoryProps {
+  comments: AccountCommentEntry[];
+  // Puts an earlier comment back in the editor; the history is read only without it
+  onRestore?: (comment: AccountCommentEntry) => void;
+}
+
+function formatLabel(format: string | null): string | null {
+  const id = commentFormatIds.find(candidate => candidate === format);
+  return id ? commentFormats[id].label : null;
+}
+
+// Every comment saved for an account, newest first, with the one exports report marked final
+export default function CommentHistory({ comments, onRestore }: CommentHistoryProps) {
+  if (comments.length === 0) return null;
+  const final = lastFinalizedComment(comments);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center text-sm font-medium text-neutral-700">
+        <History className="mr-2" size={14} />
+        Comment History
+      </div>
+      <ul className="space-y-2">
+        {[...comments].reverse().map(comment => (
+          <li key={comment.id} className="bg-white rounded-lg border p-3 text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <div className="flex items-center flex-wrap gap-1 text-xs text-neutral-500">
+                <span>{new Date(comment.createdAt).toLocaleString()}</span>
+                <span>· {comment.authorName ?? "Unknown user"}</span>
+                <Badge variant="outline" className="ml-1">
+                  {comment.source === "edited" ? "Edited" : comment.templateId ? "Custom template" : "Default template"}
+                </Badge>
+                {formatLabel(comment.format) && <Badge variant="outline">{formatLabel(comment.format)}</Badge>}
+                {comment === final ? (
+                  <Badge className="bg-green-600 hover:bg-green-600">
+                    <CheckCircle className="mr-1" size={12} />
+                    Final
+                  </Badge>
+                ) : comment.finalizedAt && (
+                  <Badge variant="outline" className="border-green-200 text-green-700">Copied</Badge>
+                )}
+              </div>
+              {onRestore && (
+                <Button type="button" variant="ghost" size="sm" className="h-7" onClick={() => onRestore(comment)}>
+                  <RotateCcw className="mr-1" size={12} />
+                  Restore
+                </Button>
+              )}
+            </div>
+            <p className="text-neutral-800 whitespace-pre-wrap line-clamp-3">{comment.body}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FieldCondition, FieldRule } from "@shared/schema";
+import { accountFieldLabels } from "@shared/field-rules";
+import { Plus, X } from "lucide-react";
+
+interface FieldRulesEditorProps {
+  value: FieldRule[];
+  onChange: (rules: FieldRule[]) => void;
+}
+
+type ConditionMode = "filled" | "equals" | "in";
+
+const ruleTypeLabels: Record<FieldRule["type"], string> = {
+  required: "is required",
+  before: "must be before",
+  after: "must be after",
+};
+
+const conditionModeLabels: Record<ConditionMode, string> = {
+  filled: "is filled in",
+  equals: "is",
+  in: "is one of",
+};
+
+const dateFields = ["dateOfService", "eligibilityFromDate", "eligibilityTermDate"];
+
+const conditionMode = (condition: FieldCondition): ConditionMode =>
+  condition.in !== undefined ? "in" : condition.equals !== undefined ? "equals" : "filled";
+
+// "One of" values are typed comma separated; trim them and drop blanks before saving
+export function cleanFieldRules(rules: FieldRule[]): FieldRule[] {
+  return rules.map((rule) => ({
+    ...rule,
+    message: rule.message?.trim() || undefined,
+    when: rule.when?.map((condition) => (
+      condition.in !== undefined ? { field: condition.field, in: condition.in.map(v => v.trim()).filter(Boolean) } : condition
+    )),
+  }));
+}
+
+function FieldSelect({ value, fields, onChange }: { value: string; fields: string[]; onChange: (field: string) => void }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-44 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {fields.map((field) => (
+          <SelectItem key={field} value={field}>{accountFieldLabels[field]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Rule rows for a catalog entry: a field check plus the conditions under which it applies
+export default function FieldRulesEditor({ value, onChange }: FieldRulesEditorProps) {
+  const allFields = Object.keys(accountFieldLabels);
+
+  const setRule = (index: number, rule: FieldRule) => onChange(value.map((existing, i) => (i === index ? rule : existing)));
+
+  const setType = (index: number, type: FieldRule["type"]) => {
+    const rule = value[index];
+    if (type === "required") {
+      setRule(index, { type, field: rule.field, when: rule.when, message: rule.message });
+    } else {
+      const field = dateFields.includes(rule.field) ? rule.field : dateFields[0];
+      const other = rule.type === "required" ? dateFields.find(f => f !== field)! : rule.other;
+      setRule(index, { type, field, other, when: rule.when, message: rule.message });
+    }
+  };
+
+  const setConditions = (index: number, when: FieldCondition[]) => {
+    setRule(index, { ...value[index], when: when.length > 0 ? when : undefined });
+  };
+
+  const setConditionMode = (condition: FieldCondition, mode: ConditionMode): FieldCondition => {
+    if (mode === "equals") return { field: condition.field, equals: condition.equals ?? condition.in?.[0] ?? "" };
+    if (mode === "in") return { field: condition.field, in: condition.in ?? (condition.equals ? [condition.equals] : []) };
+    return { field: condition.field };
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((rule, index) => {
+        const conditions = rule.when ?? [];
+        return (
+          <div key={index} className="space-y-2 rounded-md border border-neutral-200 p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <FieldSelect
+                value={rule.field}
+                fields={rule.type === "required" ? allFields : dateFields}
+                onChange={(field) => setRule(index, { ...rule, field })}
+              />
+              <Select value={rule.type} onValueChange={(type) => setType(index, type as FieldRule["type"])}>
+                <SelectTrigger className="w-40 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ruleTypeLabels) as FieldRule["type"][]).map((type) => (
+                    <SelectItem key={type} value={type}>{ruleTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {rule.type !== "required" && (
+                <FieldSelect value={rule.other} fields={dateFields} onChange={(other) => setRule(index, { ...rule, other })} />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 ml-auto text-neutral-400 hover:text-neutral-600"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <X size={14} />
+              </Button>
+            </div>
+
+            {conditions.map((condition, conditionIndex) => {
+              const mode = conditionMode(condition);
+              const setCondition = (next: FieldCondition) =>
+                setConditions(index, conditions.map((existing, i) => (i === conditionIndex ? next : existing)));
+              return (
+                <div key={conditionIndex} className="flex flex-wrap items-center gap-2 pl-4">
+                  <span className="text-xs text-neutral-500 w-10">{conditionIndex === 0 ? "when" : "and"}</span>
+                  <FieldSelect value={condition.field} fields={allFields} onChange={(field) => setCondition({ ...condition, field })} />
+                  <Select value={mode} onValueChange={(next) => setCondition(setConditionMode(condition, next as ConditionMode))}>
+                    <SelectTrigger className="w-32 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(conditionModeLabels) as ConditionMode[]).map((option) => (
+                        <SelectItem key={option} value={option}>{conditionModeLabels[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {mode === "equals" && (
+                    <Input className="h-8 w-44" value={condition.equals} onChange={(e) => setCondition({ field: condition.field, equals: e.target.value })} />
+                  )}
+                  {mode === "in" && (
+                    <Input
+                      className="h-8 w-44"
+                      placeholder="comma separated"
+                      value={condition.in?.join(",")}
+                      onChange={(e) => setCondition({ field: condition.field, in: e.target.value.split(",") })}
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-neutral-400 hover:text-neutral-600"
+                    onClick={() => setConditions(index, conditions.filter((_, i) => i !== conditionIndex))}
+                  >
+                    <X size={14} />
+                  </Button>
+                </div>
+              );
+            })}
+
+            <div className="flex items-center gap-2 pl-4">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 text-neutral-500"
+                onClick={() => setConditions(index, [...conditions, { field: "eligibilityStatus", equals: "" }])}
+              >
+                <Plus className="mr-1" size={12} />
+                Condition
+              </Button>
+              <Input
+                className="h-8"
+                placeholder="Message when the rule fails (optional)"
+                value={rule.message ?? ""}
+                onChange={(e) => setRule(index, { ...rule, message: e.target.value })}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { type: "required", field: "authorizationNumber" }])}
+      >
+        <Plus className="mr-1" size={14} />
+        Add rule
+      </Button>
+    </div>
+  );
+}
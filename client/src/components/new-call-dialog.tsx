@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { InsertCallSession, Organization } from "@shared/schema";
+import { insuranceOptions } from "@/lib/denial-codes";
+import { PhoneCall } from "lucide-react";
+
+// Select items can't have an empty value, so "none" stands in for a call without an organization
+const NO_ORGANIZATION = "none";
+
+interface NewCallDialogProps {
+  defaultCallerName?: string;
+  isPending?: boolean;
+  onStart: (details: InsertCallSession) => Promise<unknown>;
+}
+
+export default function NewCallDialog({ defaultCallerName, isPending, onStart }: NewCallDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [callerName, setCallerName] = useState("");
+  const [payer, setPayer] = useState("");
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [organizationId, setOrganizationId] = useState(NO_ORGANIZATION);
+
+  const { data: organizations = [] } = useQuery<Organization[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setCallerName(defaultCallerName || "");
+    }
+    setOpen(nextOpen);
+  };
+
+  const startCall = async () => {
+    await onStart({
+      callerName: callerName || null,
+      payer: payer || null,
+      phoneNumber: phoneNumber || null,
+      organizationId: organizationId === NO_ORGANIZATION ? null : parseInt(organizationId),
+    });
+    setPayer("");
+    setPhoneNumber("");
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <PhoneCall className="mr-2" size={16} />
+          New Call
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Start a New Call</DialogTitle>
+          <DialogDescription>
+            The current call will be ended and its accounts kept in session history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="callerName">Caller</Label>
+            <Input id="callerName" value={callerName} onChange={(e) => setCallerName(e.target.value)} />
+          </div>
+          {organizations.length > 0 && (
+            <div className="space-y-2">
+              <Label>Organization</Label>
+              <Select value={organizationId} onValueChange={setOrganizationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ORGANIZATION}>No organization</SelectItem>
+                  {organizations.map((organization) => (
+                    <SelectItem key={organization.id} value={organization.id.toString()}>
+                      {organization.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Payer</Label>
+            <Select value={payer} onValueChange={setPayer}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select payer" />
+              </SelectTrigger>
+              <SelectContent>
+                {insuranceOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="phoneNumber">Phone Number Dialed</Label>
+            <Input id="phoneNumber" placeholder="(800) 555-0100" value={phoneNumber} onChange={(e) => setPhoneNumber(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={startCall} disabled={isPending}>Start Call</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
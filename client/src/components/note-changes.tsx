@@ -0,0 +1,23 @@
+import { Badge } from "@/components/ui/badge";
+import type { AppliedReplacement } from "@shared/note-cleanup";
+import { ArrowRight } from "lucide-react";
+
+// The "explain changes" list: each replacement note cleanup made, as typed and as written
+export default function NoteChanges({ changes }: { changes: AppliedReplacement[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-neutral-500">No replacements apply to these notes</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {changes.map((change) => (
+        <li key={`${change.from}\u0000${change.to}`} className="flex items-center space-x-2">
+          <code className="bg-red-50 text-red-700 px-1 rounded">{change.from}</code>
+          <ArrowRight size={12} className="text-neutral-400" />
+          <code className="bg-green-50 text-green-800 px-1 rounded">{change.to}</code>
+          {change.count > 1 && <Badge variant="outline" className="text-[10px] px-1 py-0">×{change.count}</Badge>}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,122 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { getInsuranceLabel } from "@/lib/denial-codes";
+import { formatCents, parseDollars } from "@shared/money";
+import type { NoteEntity, NoteEntityField, NoteEntityKind } from "@shared/note-entities";
+import { ChevronDown, Copy, Sparkles } from "lucide-react";
+
+const kindLabels: Record<NoteEntityKind, string> = {
+  claimNumber: "Claim #",
+  reference: "Ref #",
+  authorization: "Auth #",
+  npi: "NPI",
+  fax: "Fax",
+  phone: "Phone",
+  date: "Date",
+  amount: "Amount",
+  payer: "Payer",
+};
+
+const fieldLabels: Record<NoteEntityField, string> = {
+  claimNumber: "Claim Number",
+  callReference: "Call Reference",
+  authorizationNumber: "Authorization Number",
+  insuranceName: "Insurance",
+  dateOfService: "Date of Service",
+  eligibilityFromDate: "Eligibility From",
+  eligibilityTermDate: "Eligibility Term",
+  billedAmount: "Billed Amount",
+  allowedAmount: "Allowed Amount",
+  paidAmount: "Paid Amount",
+  adjustmentAmount: "Adjustments",
+  patientResponsibility: "Patient Responsibility",
+  outstandingBalance: "Outstanding Balance",
+};
+
+function displayValue(entity: NoteEntity): string {
+  if (entity.kind === "amount") return formatCents(parseDollars(entity.value));
+  if (entity.kind === "payer") return getInsuranceLabel(entity.value);
+  return entity.value;
+}
+
+// Amounts compare as cents since the form may hold "80" where the notes said "$80.00"
+function alreadyFilled(entity: NoteEntity, current: string | null | undefined): boolean {
+  if (!current) return false;
+  return entity.kind === "amount" ? parseDollars(current) === parseDollars(entity.value) : current === entity.value;
+}
+
+interface NoteEntityChipsProps {
+  entities: NoteEntity[];
+  // Current form values, so a suggestion already filled in isn't offered again
+  values: Partial<Record<NoteEntityField, string | null | undefined>>;
+  onApply: (field: NoteEntityField, value: string) => void;
+}
+
+// Numbers, dates, amounts and payers found in the call notes. A click fills the best-guess field;
+// the arrow offers the other fields a date or amount could go in. Phone, fax and NPI have no field and copy instead.
+export default function NoteEntityChips({ entities, values, onApply }: NoteEntityChipsProps) {
+  const { toast } = useToast();
+  const suggestions = entities.filter(entity => !entity.fields.some(field => alreadyFilled(entity, values[field])));
+  if (suggestions.length === 0) return null;
+
+  const copy = async (entity: NoteEntity) => {
+    try {
+      await navigator.clipboard.writeText(entity.value);
+      toast({ title: "Copied", description: `${kindLabels[entity.kind]} ${entity.value} copied to clipboard` });
+    } catch {
+      toast({ title: "Error", description: "Failed to copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-center text-xs font-medium text-neutral-600">
+        <Sparkles className="mr-1" size={12} />
+        Found in notes
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {suggestions.map(entity => {
+          const [field, ...otherFields] = entity.fields;
+          return (
+            <div key={`${entity.kind}\u0000${entity.value}`} className="flex items-center rounded-full border border-neutral-200 bg-white text-xs">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 rounded-full px-3 text-xs font-normal"
+                title={field ? `Fill ${fieldLabels[field]} from "${entity.text}"` : `Copy "${entity.text}"`}
+                onClick={() => (field ? onApply(field, entity.value) : copy(entity))}
+              >
+                <span className="text-neutral-500 mr-1">{kindLabels[entity.kind]}</span>
+                <span className="font-medium text-neutral-900">{displayValue(entity)}</span>
+                {field ? (
+                  <span className="ml-1 text-primary">→ {fieldLabels[field]}</span>
+                ) : (
+                  <Copy className="ml-1 text-neutral-400" size={12} />
+                )}
+              </Button>
+              {otherFields.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button type="button" variant="ghost" size="sm" className="h-7 rounded-full px-2">
+                      <ChevronDown size={12} />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel className="text-xs">Fill instead</DropdownMenuLabel>
+                    {otherFields.map(other => (
+                      <DropdownMenuItem key={other} onSelect={() => onApply(other, entity.value)}>
+                        {fieldLabels[other]}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
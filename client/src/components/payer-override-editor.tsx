@@ -0,0 +1,276 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getInsuranceLabel, insuranceOptions, requirableFields } from "@/lib/denial-codes";
+import { DenialCode, DenialCodeOverride, ListOverride, OverrideMode, overrideModes } from "@shared/schema";
+import { GuidanceList, resolveDenialGuidance } from "@shared/denial-guidance";
+import { Plus, Save, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value, so "inherit" stands in for a null list
+const INHERIT = "inherit";
+
+const modeLabels: Record<OverrideMode, string> = {
+  add: "Add to base",
+  replace: "Replace base",
+  reorder: "Reorder base",
+};
+
+type ListDraft = { mode: OverrideMode | typeof INHERIT; items: string };
+
+type Draft = { payer: string } & Record<GuidanceList, ListDraft>;
+
+const inherit: ListDraft = { mode: INHERIT, items: "" };
+
+const emptyDraft: Draft = { payer: "", questions: inherit, requiredFields: inherit, nextSteps: inherit };
+
+const toLines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean);
+
+function toListDraft(override: ListOverride | null): ListDraft {
+  return override ? { mode: override.mode, items: override.items.join("\n") } : inherit;
+}
+
+function fromListDraft(draft: ListDraft): ListOverride | null {
+  return draft.mode === INHERIT ? null : { mode: draft.mode, items: toLines(draft.items) };
+}
+
+function toDraft(override: DenialCodeOverride): Draft {
+  return {
+    payer: override.payer,
+    questions: toListDraft(override.questions),
+    requiredFields: toListDraft(override.requiredFields),
+    nextSteps: toListDraft(override.nextSteps),
+  };
+}
+
+interface PayerOverrideEditorProps {
+  denialCode: DenialCode;
+}
+
+// Payer-specific layers over one catalog entry, with a preview of what callers for that payer will see
+export default function PayerOverrideEditor({ denialCode }: PayerOverrideEditorProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  const { data: allOverrides = [] } = useQuery<DenialCodeOverride[]>({
+    queryKey: ["/api/denial-code-overrides"],
+  });
+  const overrides = allOverrides.filter(override => override.denialCodeId === denialCode.id);
+
+  const selectOverride = (override: DenialCodeOverride | null) => {
+    setSelectedId(override?.id ?? null);
+    setDraft(override ? toDraft(override) : emptyDraft);
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (): Promise<DenialCodeOverride> => {
+      const lists = {
+        questions: fromListDraft(draft.questions),
+        requiredFields: fromListDraft(draft.requiredFields),
+        nextSteps: fromListDraft(draft.nextSteps),
+      };
+      const response = selectedId
+        ? await apiRequest("PATCH", `/api/denial-code-overrides/${selectedId}`, lists)
+        : await apiRequest("POST", "/api/denial-code-overrides", { denialCodeId: denialCode.id, payer: draft.payer, ...lists });
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/denial-code-overrides"] });
+      selectOverride(saved);
+      toast({ title: "Success", description: `${getInsuranceLabel(saved.payer)} override saved` });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/denial-code-overrides/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/denial-code-overrides"] });
+      selectOverride(null);
+      toast({ title: "Success", description: "Payer override deleted" });
+    },
+    onError,
+  });
+
+  const setList = (list: GuidanceList, value: Partial<ListDraft>) => {
+    setDraft({ ...draft, [list]: { ...draft[list], ...value } });
+  };
+
+  const toggleRequiredField = (field: string, checked: boolean) => {
+    const current = toLines(draft.requiredFields.items);
+    const next = checked ? [...current, field] : current.filter(existing => existing !== field);
+    setList("requiredFields", { items: next.join("\n") });
+  };
+
+  // Run the draft through the same merge the guidance panel uses
+  const preview = resolveDenialGuidance(denialCode, {
+    id: 0,
+    denialCodeId: denialCode.id,
+    payer: draft.payer,
+    questions: fromListDraft(draft.questions),
+    requiredFields: fromListDraft(draft.requiredFields),
+    nextSteps: fromListDraft(draft.nextSteps),
+    createdAt: null,
+    updatedAt: null,
+  });
+
+  const modeSelect = (list: GuidanceList) => (
+    <Select value={draft[list].mode} onValueChange={(mode) => setList(list, { mode: mode as ListDraft["mode"] })}>
+      <SelectTrigger className="w-40 h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INHERIT}>Inherit</SelectItem>
+        {overrideModes.map((mode) => (
+          <SelectItem key={mode} value={mode}>{modeLabels[mode]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const usedPayers = new Set(overrides.map(override => override.payer));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Payer Overrides</CardTitle>
+        <Button size="sm" variant="outline" onClick={() => selectOverride(null)}>
+          <Plus className="mr-1" size={14} />
+          New
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {overrides.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {overrides.map((override) => (
+              <Badge
+                key={override.id}
+                variant={selectedId === override.id ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => selectOverride(override)}
+              >
+                {getInsuranceLabel(override.payer)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Payer</Label>
+            <Select value={draft.payer} onValueChange={(payer) => setDraft({ ...draft, payer })} disabled={selectedId !== null}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a payer" />
+              </SelectTrigger>
+              <SelectContent>
+                {insuranceOptions
+                  .filter(option => option.value === draft.payer || !usedPayers.has(option.value))
+                  .map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="override-questions">Questions (one per line)</Label>
+              {modeSelect("questions")}
+            </div>
+            {draft.questions.mode !== INHERIT && (
+              <Textarea id="override-questions" className="min-h-[100px]" value={draft.questions.items} onChange={(e) => setList("questions", { items: e.target.value })} />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Required Fields</Label>
+              {modeSelect("requiredFields")}
+            </div>
+            {draft.requiredFields.mode !== INHERIT && (
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {requirableFields.map((field) => (
+                  <label key={field.value} className="flex items-center space-x-2 text-sm text-neutral-700">
+                    <Checkbox
+                      checked={toLines(draft.requiredFields.items).includes(field.value)}
+                      onCheckedChange={(checked) => toggleRequiredField(field.value, checked === true)}
+                    />
+                    <span>{field.label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="override-next-steps">Next Steps (one per line)</Label>
+              {modeSelect("nextSteps")}
+            </div>
+            {draft.nextSteps.mode !== INHERIT && (
+              <Textarea id="override-next-steps" className="min-h-[80px]" value={draft.nextSteps.items} onChange={(e) => setList("nextSteps", { items: e.target.value })} />
+            )}
+          </div>
+
+          {draft.payer && (
+            <div className="rounded-md border border-neutral-200 bg-neutral-50 p-3 text-sm space-y-2">
+              <div className="font-medium text-neutral-700">What {getInsuranceLabel(draft.payer)} callers will see</div>
+              <ol className="list-decimal list-inside text-neutral-600">
+                {preview.questions.map((question, index) => <li key={index}>{question}</li>)}
+              </ol>
+              <div className="text-neutral-600">
+                Required: {preview.requiredFields.map(field => requirableFields.find(f => f.value === field)?.label ?? field).join(", ") || "none"}
+              </div>
+              <ul className="list-disc list-inside text-neutral-600">
+                {preview.nextSteps.map((step, index) => <li key={index}>{step}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Button type="submit" disabled={!draft.payer || saveMutation.isPending}>
+              <Save className="mr-2" size={16} />
+              Save Override
+            </Button>
+            {selectedId && (
+              <Button
+                type="button"
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                disabled={deleteMutation.isPending}
+                onClick={() => {
+                  if (confirm(`Delete the ${getInsuranceLabel(draft.payer)} override?`)) {
+                    deleteMutation.mutate(selectedId);
+                  }
+                }}
+              >
+                <Trash2 className="mr-2" size={16} />
+                Delete
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { insuranceOptions } from "@/lib/denial-codes";
+import { AnswerType, QuestionAnswer } from "@shared/schema";
+import { formatDollarInput, parseDollars } from "@shared/money";
+import { AlertCircle } from "lucide-react";
+
+interface QuestionAnswersCardProps {
+  accountId: number;
+  questions: string[];
+  answerTypes: Record<string, AnswerType>;
+}
+
+// Text input that saves once the caller leaves it rather than on every keystroke
+function CommitInput({ value, onCommit, placeholder }: { value: string; onCommit: (value: string) => void; placeholder?: string }) {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <Input
+      value={draft}
+      placeholder={placeholder}
+      className="h-8 bg-white"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft !== value) onCommit(draft);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") {
+          e.preventDefault();
+          e.currentTarget.blur();
+        }
+      }}
+    />
+  );
+}
+
+// Questions to ask the rep, each with an input for the answer that is saved to the account
+export default function QuestionAnswersCard({ accountId, questions, answerTypes }: QuestionAnswersCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/accounts", accountId, "answers"];
+
+  const { data: answers = [] } = useQuery<QuestionAnswer[]>({ queryKey });
+
+  const saveAnswerMutation = useMutation({
+    mutationFn: async (data: { question: string; answerType: AnswerType; value: string }) => {
+      await apiRequest("PUT", `/api/accounts/${accountId}/answers`, data);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const save = (question: string, answerType: AnswerType, value: string) => {
+    saveAnswerMutation.mutate({ question, answerType, value });
+  };
+
+  const renderInput = (question: string, answerType: AnswerType, value: string) => {
+    switch (answerType) {
+      case "yes_no":
+        return (
+          <div className="flex space-x-2">
+            {(["yes", "no"] as const).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={value === option ? "default" : "outline"}
+                className="h-7 capitalize"
+                // Clicking the chosen answer again clears it
+                onClick={() => save(question, answerType, value === option ? "" : option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        );
+      case "date":
+        return (
+          <Input type="date" className="h-8 w-44 bg-white" value={value} onChange={(e) => save(question, answerType, e.target.value)} />
+        );
+      case "amount":
+        return (
+          <CommitInput
+            placeholder="0.00"
+            value={value ? formatDollarInput(parseInt(value, 10)) : ""}
+            onCommit={(dollars) => {
+              const cents = parseDollars(dollars);
+              if (cents === undefined) {
+                toast({ title: "Invalid value", description: "Amounts must be dollar values like 125.00", variant: "destructive" });
+                return;
+              }
+              save(question, answerType, cents === null ? "" : String(cents));
+            }}
+          />
+        );
+      case "payer":
+        return (
+          <Select value={value} onValueChange={(payer) => save(question, answerType, payer)}>
+            <SelectTrigger className="h-8 bg-white">
+              <SelectValue placeholder="Select payer" />
+            </SelectTrigger>
+            <SelectContent>
+              {insuranceOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return <CommitInput placeholder="Rep's answer" value={value} onCommit={(text) => save(question, answerType, text)} />;
+    }
+  };
+
+  return (
+    <Card className="bg-orange-50 border-orange-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-base">
+          <AlertCircle className="text-orange-600 mr-2" size={16} />
+          Questions to Ask Rep
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3 text-sm">
+          {questions.map((question, index) => {
+            const answerType = answerTypes[question] ?? "text";
+            const value = answers.find((answer) => answer.question === question)?.value ?? "";
+            return (
+              <li key={question} className="space-y-1">
+                <div className="flex items-start space-x-2">
+                  <span className="w-5 h-5 bg-orange-200 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+                    <span className="text-orange-700 text-xs font-bold">{index + 1}</span>
+                  </span>
+                  <span className="text-neutral-700">"{question}"</span>
+                </div>
+                <div className="pl-7">{renderInput(question, answerType, value)}</div>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
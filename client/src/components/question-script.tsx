@@ -0,0 +1,98 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { QuestionPathStep, QuestionTree } from "@shared/schema";
+import { walkQuestionTree } from "@shared/denial-guidance";
+import { AlertCircle, CheckCircle, RotateCcw } from "lucide-react";
+
+interface QuestionScriptProps {
+  tree: QuestionTree;
+  path: QuestionPathStep[];
+  onChange?: (path: QuestionPathStep[]) => void;
+}
+
+// Step-by-step call script: answered questions stay listed above the one to ask next.
+// Without onChange it is a read-only record of the path taken.
+export default function QuestionScript({ tree, path, onChange }: QuestionScriptProps) {
+  const { steps, currentId, current } = walkQuestionTree(tree, path);
+
+  const answer = (label: string) => {
+    if (!currentId || !current) return;
+    onChange?.([...steps, { nodeId: currentId, question: current.question, answer: label }]);
+  };
+
+  return (
+    <Card className="bg-orange-50 border-orange-200">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center">
+            <AlertCircle className="text-orange-600 mr-2" size={16} />
+            Call Script
+          </span>
+          {onChange && steps.length > 0 && (
+            <Button type="button" variant="ghost" size="sm" className="h-6 px-2 text-orange-700" onClick={() => onChange([])}>
+              <RotateCcw className="mr-1" size={12} />
+              Start over
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {steps.map((step, index) => (
+          <div key={step.nodeId} className="flex items-start justify-between space-x-2">
+            <div className="flex items-start space-x-2">
+              <span className="w-5 h-5 bg-orange-200 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+                <span className="text-orange-700 text-xs font-bold">{index + 1}</span>
+              </span>
+              <div>
+                <div className="text-neutral-500">"{step.question}"</div>
+                <Badge variant="outline" className="mt-1 border-orange-300 text-orange-800 bg-white">{step.answer}</Badge>
+              </div>
+            </div>
+            {onChange && (
+              <button
+                type="button"
+                className="text-xs text-orange-600 hover:text-orange-800 flex-shrink-0"
+                onClick={() => onChange(steps.slice(0, index))}
+              >
+                Change
+              </button>
+            )}
+          </div>
+        ))}
+
+        {current ? (
+          <div className="flex items-start space-x-2">
+            <span className="w-5 h-5 bg-orange-500 rounded-full flex items-center justify-center flex-shrink-0 mt-0.5">
+              <span className="text-white text-xs font-bold">{steps.length + 1}</span>
+            </span>
+            <div className="space-y-2">
+              <div className="text-neutral-900 font-medium">"{current.question}"</div>
+              {onChange && (
+                <div className="flex flex-wrap gap-2">
+                  {current.answers.map((option) => (
+                    <Button
+                      key={option.label}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="h-7 border-orange-300 bg-white hover:bg-orange-100"
+                      onClick={() => answer(option.label)}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center text-green-700">
+            <CheckCircle className="mr-2" size={14} />
+            Script complete
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
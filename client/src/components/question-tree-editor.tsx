@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { QuestionNode, QuestionTree } from "@shared/schema";
+import { CornerDownRight, Plus, Trash2, X } from "lucide-react";
+
+interface QuestionTreeEditorProps {
+  value: QuestionTree | null;
+  onChange: (tree: QuestionTree | null) => void;
+}
+
+const yesNo = (): QuestionNode => ({ question: "", answers: [{ label: "Yes" }, { label: "No" }] });
+
+function nextNodeId(tree: QuestionTree): string {
+  let n = Object.keys(tree.nodes).length + 1;
+  while (tree.nodes[`q${n}`]) n++;
+  return `q${n}`;
+}
+
+// The node and every follow-up beneath it
+function subtreeIds(tree: QuestionTree, nodeId: string): string[] {
+  const node = tree.nodes[nodeId];
+  if (!node) return [];
+  return [nodeId, ...node.answers.flatMap((answer) => (answer.next ? subtreeIds(tree, answer.next) : []))];
+}
+
+// Nested editor for a branching call script; each answer can open its own follow-up question
+export default function QuestionTreeEditor({ value, onChange }: QuestionTreeEditorProps) {
+  if (!value) {
+    return (
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange({ start: "q1", nodes: { q1: yesNo() } })}>
+        <Plus className="mr-1" size={14} />
+        Add call script
+      </Button>
+    );
+  }
+
+  const tree = value;
+  const setNode = (nodeId: string, node: QuestionNode) => onChange({ ...tree, nodes: { ...tree.nodes, [nodeId]: node } });
+
+  const addFollowUp = (nodeId: string, answerIndex: number) => {
+    const id = nextNodeId(tree);
+    const node = tree.nodes[nodeId];
+    onChange({
+      ...tree,
+      nodes: {
+        ...tree.nodes,
+        [id]: yesNo(),
+        [nodeId]: { ...node, answers: node.answers.map((answer, index) => (index === answerIndex ? { ...answer, next: id } : answer)) },
+      },
+    });
+  };
+
+  // Dropping an answer or follow-up drops everything that hangs off it too
+  const removeBranch = (nodeId: string, answerIndex: number, removeAnswer: boolean) => {
+    const node = tree.nodes[nodeId];
+    const target = node.answers[answerIndex];
+    const removed = new Set(target.next ? subtreeIds(tree, target.next) : []);
+    const nodes = Object.fromEntries(Object.entries(tree.nodes).filter(([id]) => !removed.has(id)));
+    nodes[nodeId] = {
+      ...node,
+      answers: removeAnswer
+        ? node.answers.filter((_, index) => index !== answerIndex)
+        : node.answers.map((answer, index) => (index === answerIndex ? { label: answer.label } : answer)),
+    };
+    onChange({ ...tree, nodes });
+  };
+
+  const renderNode = (nodeId: string) => {
+    const node = tree.nodes[nodeId];
+    if (!node) return null;
+    return (
+      <div className="space-y-2">
+        <Input
+          placeholder="Question to ask the rep"
+          value={node.question}
+          onChange={(e) => setNode(nodeId, { ...node, question: e.target.value })}
+        />
+        <div className="space-y-2 pl-4">
+          {node.answers.map((answer, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <CornerDownRight className="text-neutral-400 flex-shrink-0" size={14} />
+                <Input
+                  className="h-8 w-48"
+                  placeholder="Answer"
+                  value={answer.label}
+                  onChange={(e) => setNode(nodeId, {
+                    ...node,
+                    answers: node.answers.map((existing, i) => (i === index ? { ...existing, label: e.target.value } : existing)),
+                  })}
+                />
+                {answer.next ? (
+                  <Button type="button" variant="ghost" size="sm" className="h-8 text-neutral-500" onClick={() => removeBranch(nodeId, index, false)}>
+                    Remove follow-up
+                  </Button>
+                ) : (
+                  <Button type="button" variant="ghost" size="sm" className="h-8 text-neutral-500" onClick={() => addFollowUp(nodeId, index)}>
+                    <Plus className="mr-1" size={12} />
+                    Follow-up
+                  </Button>
+                )}
+                {node.answers.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-neutral-400 hover:text-neutral-600"
+                    onClick={() => removeBranch(nodeId, index, true)}
+                  >
+                    <X size={14} />
+                  </Button>
+                )}
+              </div>
+              {answer.next && <div className="pl-6 border-l-2 border-orange-200">{renderNode(answer.next)}</div>}
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 text-neutral-500"
+            onClick={() => setNode(nodeId, { ...node, answers: [...node.answers, { label: "" }] })}
+          >
+            <Plus className="mr-1" size={12} />
+            Answer
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-neutral-200 p-3">
+      {renderNode(tree.start)}
+      <Button type="button" variant="outline" size="sm" className="text-red-600 hover:text-red-700" onClick={() => onChange(null)}>
+        <Trash2 className="mr-1" size={14} />
+        Remove call script
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useReasonCodeSearch } from "@/hooks/use-reason-codes";
+import { Plus, X } from "lucide-react";
+
+interface RemarkCodePickerProps {
+  value: string[];
+  onChange: (codes: string[]) => void;
+}
+
+// Any number of RARCs from the reference catalog, shown as removable chips
+export default function RemarkCodePicker({ value, onChange }: RemarkCodePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const { data: results = [], isFetching } = useReasonCodeSearch("rarc", search);
+
+  const addCode = (code: string) => {
+    if (!value.includes(code)) {
+      onChange([...value, code]);
+    }
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {value.map((code) => (
+        <Badge key={code} variant="outline" className="border-orange-200 text-orange-700 bg-orange-50">
+          {code}
+          <button
+            type="button"
+            className="ml-1 text-orange-400 hover:text-orange-700"
+            onClick={() => onChange(value.filter((existing) => existing !== code))}
+          >
+            <X size={12} />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-7">
+            <Plus className="mr-1" size={12} />
+            Add RARC
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[400px] p-0">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search remark codes (e.g., N130, M15, documentation)..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{search.trim() ? (isFetching ? "Searching..." : "No remark code found.") : "Type to search remark codes."}</CommandEmpty>
+              <CommandGroup>
+                {results.map((reasonCode) => (
+                  <CommandItem key={reasonCode.id} value={reasonCode.code} onSelect={() => addCode(reasonCode.code)}>
+                    <div className="flex flex-col">
+                      <span className="font-medium">
+                        {reasonCode.code}
+                        {reasonCode.stopDate && <span className="ml-2 text-xs text-neutral-400">deactivated {reasonCode.stopDate}</span>}
+                      </span>
+                      <span className="text-sm text-muted-foreground line-clamp-2">{reasonCode.description}</span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
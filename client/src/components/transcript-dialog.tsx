@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { getInsuranceLabel, insuranceOptions } from "@/lib/denial-codes";
+import { AnswerType, GroupCode, QuestionAnswer } from "@shared/schema";
+import { formatCents } from "@shared/money";
+import { formatDenialCode } from "@shared/group-codes";
+import { detectRepSpeaker, parseTranscript, readTranscript, transcriptSpeakers, type TranscriptField, type TranscriptProposal } from "@shared/transcript";
+import { FileText } from "lucide-react";
+
+const fieldLabels: Record<TranscriptField, string> = {
+  repName: "Rep Name",
+  callReference: "Call Reference",
+  eligibilityFromDate: "Eligibility From",
+  eligibilityTermDate: "Eligibility Term",
+};
+
+function proposalKey(proposal: TranscriptProposal): string {
+  if (proposal.kind === "field") return `field:${proposal.field}`;
+  if (proposal.kind === "answer") return `answer:${proposal.question}`;
+  return "denialCode";
+}
+
+function proposalLabel(proposal: TranscriptProposal): string {
+  if (proposal.kind === "field") return fieldLabels[proposal.field];
+  if (proposal.kind === "answer") return proposal.question;
+  return "Denial Code";
+}
+
+function answerDisplay(answerType: AnswerType, value: string): string {
+  switch (answerType) {
+    case "yes_no":
+      return value === "yes" ? "Yes" : "No";
+    case "date": {
+      const [year, month, day] = value.split("-");
+      return `${month}/${day}/${year}`;
+    }
+    case "amount":
+      return formatCents(parseInt(value, 10));
+    case "payer":
+      return getInsuranceLabel(value);
+    default:
+      return value;
+  }
+}
+
+function proposalDisplay(proposal: TranscriptProposal): string {
+  if (proposal.kind === "field") return proposal.value;
+  if (proposal.kind === "answer") return answerDisplay(proposal.answerType, proposal.value);
+  return formatDenialCode(proposal.groupCode, proposal.code);
+}
+
+interface TranscriptDialogProps {
+  // The current denial code's questions, whose answers the transcript may hold
+  questions: string[];
+  answerTypes: Record<string, AnswerType>;
+  // What the active tab holds now, so values it already has aren't proposed again
+  current: Partial<Record<TranscriptField, string | null>> & { groupCode?: GroupCode | null; denialCode?: string | null };
+  answers: QuestionAnswer[];
+  onApply: (proposals: TranscriptProposal[]) => Promise<void>;
+}
+
+// Paste a call transcript, review what was read from it and apply the chosen values to the active tab.
+// The transcript is parsed in the browser and never sent to the server.
+export default function TranscriptDialog({ questions, answerTypes, current, answers, onApply }: TranscriptDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [transcript, setTranscript] = useState("");
+  // Chosen when the speaker labels don't say which side is the payer
+  const [repSpeaker, setRepSpeaker] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+
+  const turns = parseTranscript(transcript);
+  const speakers = transcriptSpeakers(turns);
+  const rep = repSpeaker && speakers.includes(repSpeaker) ? repSpeaker : detectRepSpeaker(turns);
+
+  const currentDisplay = (proposal: TranscriptProposal): string | null => {
+    if (proposal.kind === "field") return current[proposal.field] || null;
+    if (proposal.kind === "answer") {
+      const answer = answers.find(answer => answer.question === proposal.question);
+      return answer?.value ? answerDisplay(proposal.answerType, answer.value) : null;
+    }
+    return current.denialCode ? formatDenialCode(current.groupCode, current.denialCode) : null;
+  };
+
+  const proposals = readTranscript(turns, rep, { questions, answerTypes, payers: insuranceOptions })
+    .filter(proposal => currentDisplay(proposal) !== proposalDisplay(proposal));
+  const selected = proposals.filter(proposal => !skipped.has(proposalKey(proposal)));
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(skipped);
+    if (checked) next.delete(key);
+    else next.add(key);
+    setSkipped(next);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setTranscript("");
+      setRepSpeaker(null);
+      setSkipped(new Set());
+    }
+    setOpen(nextOpen);
+  };
+
+  const apply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(selected);
+      handleOpenChange(false);
+    } catch {
+      // Already reported; keep the dialog open to try again
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileText className="mr-2" size={16} />
+          Paste Transcript
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Fill From Call Transcript</DialogTitle>
+          <DialogDescription>
+            Paste a transcript with one speaker per line ("Rep: ..."). It is read in your browser and not saved; check each value before applying it to this account.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <Textarea
+            rows={8}
+            className="font-mono text-xs"
+            placeholder={"Rep: Thank you for calling, my name is Dana.\nCaller: I'm calling about a denied claim..."}
+            value={transcript}
+            onChange={(e) => setTranscript(e.target.value)}
+          />
+
+          {turns.length > 0 && (
+            <div className="flex items-center justify-between text-sm text-neutral-600">
+              <span>{turns.length} lines from {speakers.length} speaker{speakers.length === 1 ? "" : "s"}</span>
+              {speakers.length > 1 && (
+                <div className="flex items-center space-x-2">
+                  <Label className="text-sm font-normal">Payer rep</Label>
+                  <Select value={rep ?? undefined} onValueChange={setRepSpeaker}>
+                    <SelectTrigger className="h-8 w-48">
+                      <SelectValue placeholder="Select speaker" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {speakers.map(speaker => (
+                        <SelectItem key={speaker} value={speaker}>{speaker}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {turns.length > 0 && (
+            proposals.length === 0 ? (
+              <p className="text-sm text-neutral-500">Nothing new for this account was found in the transcript</p>
+            ) : (
+              <ul className="max-h-72 overflow-y-auto space-y-2">
+                {proposals.map(proposal => {
+                  const key = proposalKey(proposal);
+                  const existing = currentDisplay(proposal);
+                  return (
+                    <li key={key} className="rounded-md border border-neutral-200 p-3">
+                      <label className="flex items-start space-x-3 cursor-pointer">
+                        <Checkbox className="mt-0.5" checked={!skipped.has(key)} onCheckedChange={(checked) => toggle(key, checked === true)} />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-baseline justify-between gap-2 text-sm">
+                            <span className="text-neutral-600">{proposalLabel(proposal)}</span>
+                            <span className="font-medium text-neutral-900 text-right">
+                              {proposalDisplay(proposal)}
+                              {existing && <span className="ml-2 font-normal text-xs text-neutral-500 line-through">{existing}</span>}
+                            </span>
+                          </div>
+                          <p className="text-xs text-neutral-500 italic truncate" title={proposal.evidence}>"{proposal.evidence}"</p>
+                        </div>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            )
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button onClick={apply} disabled={isApplying || selected.length === 0}>
+            Apply {selected.length > 0 ? selected.length : ""} to Account
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
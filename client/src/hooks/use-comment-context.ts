@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { CommentTemplate, DenialCode, NoteDictionaryEntry } from "@shared/schema";
+import type { CommentContext } from "@/lib/denial-codes";
+
+// The catalog, templates and note dictionary generated comments are rendered from, for one organization's calls
+export function useCommentContext(organizationId: number | null | undefined): CommentContext {
+  const { data: denialCodes = [] } = useQuery<DenialCode[]>({ queryKey: ["/api/denial-codes"] });
+  const { data: templates = [] } = useQuery<CommentTemplate[]>({ queryKey: ["/api/comment-templates"] });
+  const { data: noteDictionary = [] } = useQuery<NoteDictionaryEntry[]>({ queryKey: ["/api/note-dictionary"] });
+  return { denialCodes, templates, noteDictionary, organizationId };
+}
@@ -0,0 +1,12 @@
+import { useQuery } from "@tanstack/react-query";
+import { ReasonCode, ReasonCodeType } from "@shared/schema";
+
+// Searches the CARC/RARC reference catalog once the user has typed something
+export function useReasonCodeSearch(type: ReasonCodeType, search: string) {
+  const q = search.trim();
+  const params = new URLSearchParams({ type, q });
+  return useQuery<ReasonCode[]>({
+    queryKey: [`/api/reason-codes?${params}`],
+    enabled: q.length > 0,
+  });
+}
@@ -0,0 +1,51 @@
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Session storage helper functions
+export const SESSION_STORAGE_KEY = 'ar-copilot-session';
+export const ACCOUNTS_STORAGE_KEY = 'ar-copilot-accounts';
+// The caller's last-picked comment format; kept when a call ends
+export const COMMENT_FORMAT_STORAGE_KEY = 'ar-copilot-comment-format';
+
+export const saveToSessionStorage = (key: string, data: any) => {
+  try {
+    sessionStorage.setItem(key, JSON.stringify(data));
+  } catch (error) {
+    console.warn('Failed to save to sessionStorage:', error);
+  }
+};
+
+export const loadFromSessionStorage = (key: string) => {
+  try {
+    const data = sessionStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.warn('Failed to load from sessionStorage:', error);
+    return null;
+  }
+};
+
+export const clearSessionStorage = () => {
+  try {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    sessionStorage.removeItem(ACCOUNTS_STORAGE_KEY);
+  } catch (error) {
+    console.warn('Failed to clear sessionStorage:', error);
+  }
+};
+
+// Make a past session the active call, ending whichever call is currently open in this tab
+export async function resumeCallSession(sessionId: string): Promise<void> {
+  const currentSessionId = loadFromSessionStorage(SESSION_STORAGE_KEY);
+  if (currentSessionId && currentSessionId !== sessionId) {
+    try {
+      await apiRequest("POST", `/api/sessions/${currentSessionId}/close`);
+    } catch (error) {
+      // Already closed or no longer on the server; nothing to end
+    }
+  }
+  await apiRequest("POST", `/api/sessions/${sessionId}/reopen`);
+  clearSessionStorage();
+  saveToSessionStorage(SESSION_STORAGE_KEY, sessionId);
+  await queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  await queryClient.invalidateQueries({ queryKey: ["/api/accounts", sessionId] });
+}
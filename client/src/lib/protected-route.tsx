@@ -0,0 +1,31 @@
+import { ComponentType } from "react";
+import { Redirect, Route } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { UserRole } from "@shared/schema";
+import { hasRole } from "@shared/roles";
+
+export function ProtectedRoute({
+  path,
+  component: Component,
+  role,
+}: {
+  path: string;
+  component: ComponentType;
+  role?: UserRole;
+}) {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <Route path={path}>
+      {isLoading ? (
+        <div className="flex items-center justify-center h-screen">Loading...</div>
+      ) : !user ? (
+        <Redirect to="/auth" />
+      ) : role && !hasRole(user.role, role) ? (
+        <Redirect to="/" />
+      ) : (
+        <Component />
+      )}
+    </Route>
+  );
+}
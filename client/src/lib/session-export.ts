@@ -0,0 +1,136 @@
+import { AccountComment, PatientAccount, QuestionAnswer } from "@shared/schema";
+import { formatAnswer, getInsuranceLabel, lastFinalizedComment } from "@/lib/denial-codes";
+import { formatCents } from "@shared/money";
+import { denialCodeParts } from "@shared/group-codes";
+import { accountStatusLabels } from "@shared/account-status";
+import { apiRequest } from "@/lib/queryClient";
+
+export function buildSessionCsv(
+  sessionId: string,
+  accounts: PatientAccount[],
+  answersByAccount: Record<number, QuestionAnswer[]> = {},
+  commentsByAccount: Record<number, AccountComment[]> = {},
+): string {
+  // Create CSV headers
+  const headers = [
+    'Patient Name',
+    'Account Number', 
+    'Insurance Name',
+    'Status',
+    'Rep Name',
+    'Call Reference',
+    'Group Code',
+    'Reason Code',
+    'Denial Description',
+    'Remark Codes',
+    'Date of Service',
+    'Eligibility From Date',
+    'Eligibility Term Date',
+    'Eligibility Status',
+    'Additional Notes',
+    'Claim Number',
+    'Authorization Number',
+    'Billed Amount',
+    'Allowed Amount',
+    'Paid Amount',
+    'Adjustment Amount',
+    'Patient Responsibility',
+    'Outstanding Balance',
+    'Call Script Path',
+    'Question Answers',
+    'Generated Comment',
+    'Final Comment',
+    'Created At',
+    'Updated At'
+  ];
+  
+  // Convert accounts to CSV rows
+  const csvRows = accounts.map(account => {
+    // What was pasted into the billing system, not what the generator would say today
+    const accountComments = commentsByAccount[account.id] ?? [];
+    const final = lastFinalizedComment(accountComments);
+    // Side by side with the generated wording it was edited from, so edits can be reviewed in bulk
+    const generated = final?.source === "edited"
+      ? accountComments.find(comment => comment.id === final.generatedFromId)
+      : final;
+
+    return [
+      account.patientName || '',
+      account.accountNumber || '',
+      getInsuranceLabel(account.insuranceName) || account.insuranceName || '',
+      accountStatusLabels[account.status] ?? account.status,
+      account.repName || '',
+      account.callReference || '',
+      denialCodeParts(account).groupCode || '',
+      denialCodeParts(account).reasonCode,
+      account.denialDescription || '',
+      account.remarkCodes.join(' '),
+      account.dateOfService || '',
+      account.eligibilityFromDate || '',
+      account.eligibilityTermDate || '',
+      account.eligibilityStatus || '',
+      account.additionalNotes || '',
+      account.claimNumber || '',
+      account.authorizationNumber || '',
+      formatCents(account.billedAmount),
+      formatCents(account.allowedAmount),
+      formatCents(account.paidAmount),
+      formatCents(account.adjustmentAmount),
+      formatCents(account.patientResponsibility),
+      formatCents(account.outstandingBalance),
+      account.questionPath.map(step => `${step.question} ${step.answer}`).join(' | '),
+      (answersByAccount[account.id] ?? []).map(answer => `${answer.question} ${formatAnswer(answer.answerType, answer.value)}`).join(' | '),
+      generated?.body || '',
+      final?.body || '',
+      account.createdAt ? new Date(account.createdAt).toLocaleString() : '',
+      account.updatedAt ? new Date(account.updatedAt).toLocaleString() : ''
+    ];
+  });
+  
+  // Create CSV content
+  return [
+    // Add session info as header comments
+    `# AR Copilot Session Export`,
+    `# Session ID: ${sessionId}`,
+    `# Export Date: ${new Date().toLocaleString()}`,
+    `# Total Accounts: ${accounts.length}`,
+    '',
+    // Add headers
+    headers.join(','),
+    // Add data rows
+    ...csvRows.map(row => 
+      row.map(field => 
+        // Escape fields that contain commas, quotes, or newlines
+        typeof field === 'string' && (field.includes(',') || field.includes('"') || field.includes('\n'))
+          ? `"${field.replace(/"/g, '""')}"` 
+          : field
+      ).join(',')
+    )
+  ].join('\n');
+}
+
+// Exports are PHI disclosures, so the server must log one before the file is produced
+export async function downloadSessionCsv(sessionId: string, accounts: PatientAccount[]) {
+  await apiRequest("POST", `/api/sessions/${sessionId}/export`);
+
+  const answersByAccount: Record<number, QuestionAnswer[]> = {};
+  const commentsByAccount: Record<number, AccountComment[]> = {};
+  for (const account of accounts) {
+    const answersResponse = await apiRequest("GET", `/api/accounts/${account.id}/answers`);
+    answersByAccount[account.id] = await answersResponse.json();
+    const commentsResponse = await apiRequest("GET", `/api/accounts/${account.id}/comments`);
+    commentsByAccount[account.id] = await commentsResponse.json();
+  }
+  const csvContent = buildSessionCsv(sessionId, accounts, answersByAccount, commentsByAccount);
+
+  // Create and download CSV file
+  const dataBlob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(dataBlob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `ar-session-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
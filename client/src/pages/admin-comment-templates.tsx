@@ -0,0 +1,325 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { commentValues } from "@/lib/denial-codes";
+import { CommentTemplate, DenialCode, Organization } from "@shared/schema";
+import { commentPlaceholders, renderCommentTemplate, resolveCommentTemplate, unknownPlaceholders } from "@shared/comment-templates";
+import { formatDenialCode } from "@shared/group-codes";
+import { AlertCircle, ArrowLeft, FileText, Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value, so "default" stands in for the every-code template
+const EVERY_CODE = "default";
+
+// Made-up account the preview is rendered against
+const sampleAccount = {
+  patientName: "Jane Doe",
+  accountNumber: "A-10042",
+  insuranceName: "aetna",
+  repName: "Maria",
+  callReference: "REF-88123",
+  dateOfService: "03/14/2025",
+  eligibilityStatus: "active",
+  eligibilityFromDate: "01/01/2025",
+  claimNumber: "CLM-5521",
+  billedAmount: 15000,
+  allowedAmount: 9500,
+  paidAmount: 9500,
+  adjustmentAmount: 5500,
+  patientResponsibility: 0,
+  outstandingBalance: 0,
+  remarkCodes: ["N130"],
+  questionPath: [{ nodeId: "q1", question: "Was the claim received?", answer: "Yes" }],
+  additionalNotes: "rep confirmed claim reprocessed",
+};
+
+export default function AdminCommentTemplates() {
+  const { toast } = useToast();
+  const [organizationId, setOrganizationId] = useState<number | null>(null);
+  const [denialCodeId, setDenialCodeId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [newOrganization, setNewOrganization] = useState("");
+
+  const { data: organizations = [] } = useQuery<Organization[]>({ queryKey: ["/api/organizations"] });
+  const { data: denialCodes = [] } = useQuery<DenialCode[]>({ queryKey: ["/api/denial-codes"] });
+  const { data: templates = [], isLoading } = useQuery<CommentTemplate[]>({ queryKey: ["/api/comment-templates"] });
+
+  const stored = templates.find(template => template.organizationId === organizationId && template.denialCodeId === denialCodeId);
+  // Without a template of its own, the scope shows what it currently inherits
+  const inherited = resolveCommentTemplate(templates.filter(template => template !== stored), organizationId, denialCodeId);
+  const body = draft ?? stored?.body ?? inherited;
+
+  const selectScope = (orgId: number | null, codeId: number | null) => {
+    setOrganizationId(orgId);
+    setDenialCodeId(codeId);
+    setDraft(null);
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (stored) {
+        await apiRequest("PATCH", `/api/comment-templates/${stored.id}`, { body });
+      } else {
+        await apiRequest("POST", "/api/comment-templates", { organizationId, denialCodeId, body });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/comment-templates"] });
+      setDraft(null);
+      toast({ title: "Success", description: "Template saved" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/comment-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/comment-templates"] });
+      setDraft(null);
+      toast({ title: "Success", description: "Template removed" });
+    },
+    onError,
+  });
+
+  const createOrganizationMutation = useMutation({
+    mutationFn: async (name: string): Promise<Organization> => {
+      const response = await apiRequest("POST", "/api/organizations", { name });
+      return response.json();
+    },
+    onSuccess: (organization) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      setNewOrganization("");
+      selectScope(organization.id, null);
+    },
+    onError,
+  });
+
+  const deleteOrganizationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/organizations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/comment-templates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/note-dictionary"] });
+      selectScope(null, null);
+      toast({ title: "Success", description: "Organization deleted" });
+    },
+    onError,
+  });
+
+  const organizationName = organizations.find(organization => organization.id === organizationId)?.name ?? "All organizations";
+  const codeLabel = (denialCode: DenialCode) => formatDenialCode(denialCode.groupCode, denialCode.code);
+  const scopedCodeIds = new Set(
+    templates.filter(template => template.organizationId === organizationId && template.denialCodeId).map(template => template.denialCodeId),
+  );
+  if (denialCodeId) scopedCodeIds.add(denialCodeId);
+
+  // Preview against the selected code, or CO-45 for the every-code template
+  const previewCode = denialCodes.find(denialCode => denialCode.id === denialCodeId)
+    ?? denialCodes.find(denialCode => denialCode.groupCode === "CO" && denialCode.code === "45")
+    ?? denialCodes[0];
+  const preview = renderCommentTemplate(body, commentValues(
+    { ...sampleAccount, groupCode: previewCode?.groupCode ?? null, denialCode: previewCode?.code ?? "" },
+    [],
+    [],
+    denialCodes,
+  ));
+  const unknown = unknownPlaceholders(body);
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <FileText className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-900">Comment Templates</h1>
+              <p className="text-sm text-neutral-600">Wording and field order of generated comments, per organization and denial code</p>
+            </div>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="mr-2" size={16} />
+              Back to Current Call
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card className="md:col-span-1">
+            <CardHeader>
+              <CardTitle>Organizations</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <ScrollArea className="h-[480px]">
+                {[null, ...organizations].map((organization) => {
+                  const id = organization?.id ?? null;
+                  return (
+                    <button
+                      key={id ?? "all"}
+                      type="button"
+                      onClick={() => selectScope(id, null)}
+                      className={`w-full text-left px-4 py-3 border-b border-neutral-100 hover:bg-neutral-50 ${
+                        organizationId === id ? "bg-primary/5 border-l-4 border-l-primary" : ""
+                      }`}
+                    >
+                      <div className="font-medium text-sm">{organization?.name ?? "All organizations"}</div>
+                      <div className="text-xs text-neutral-500">
+                        {templates.filter(template => template.organizationId === id).length} templates
+                      </div>
+                    </button>
+                  );
+                })}
+              </ScrollArea>
+              <form
+                className="flex space-x-2 p-4 border-t border-neutral-100"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (newOrganization.trim()) createOrganizationMutation.mutate(newOrganization.trim());
+                }}
+              >
+                <Input placeholder="New organization" value={newOrganization} onChange={(e) => setNewOrganization(e.target.value)} />
+                <Button type="submit" size="sm" variant="outline" disabled={createOrganizationMutation.isPending}>
+                  <Plus size={14} />
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <div className="md:col-span-2 space-y-6">
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>{organizationName}</CardTitle>
+                {organizationId && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    disabled={deleteOrganizationMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`Delete ${organizationName} and its templates and note dictionary entries? Past calls keep their accounts.`)) {
+                        deleteOrganizationMutation.mutate(organizationId);
+                      }
+                    }}
+                  >
+                    <Trash2 className="mr-1" size={14} />
+                    Delete Organization
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Applies to</Label>
+                  <Select
+                    value={denialCodeId?.toString() ?? EVERY_CODE}
+                    onValueChange={(value) => selectScope(organizationId, value === EVERY_CODE ? null : parseInt(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EVERY_CODE}>Every denial code</SelectItem>
+                      {denialCodes.map((denialCode) => (
+                        <SelectItem key={denialCode.id} value={denialCode.id.toString()}>
+                          {codeLabel(denialCode)}{scopedCodeIds.has(denialCode.id) ? " (customized)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-body">Template</Label>
+                  {!stored && (
+                    <p className="text-xs text-neutral-500">
+                      No template of its own yet; showing the one it currently falls back to. Saving creates one for this scope.
+                    </p>
+                  )}
+                  <Textarea
+                    id="template-body"
+                    className="min-h-[160px] font-mono text-sm"
+                    value={body}
+                    onChange={(e) => setDraft(e.target.value)}
+                  />
+                  {unknown.length > 0 && (
+                    <p className="flex items-center text-xs text-orange-700">
+                      <AlertCircle className="mr-1" size={12} />
+                      Unknown placeholders render empty: {unknown.join(", ")}
+                    </p>
+                  )}
+                </div>
+
+                <div className="rounded-md border border-neutral-200 bg-neutral-50 p-3 text-sm space-y-1">
+                  <div className="font-medium text-neutral-700">Preview{previewCode ? ` (${codeLabel(previewCode)}, sample account)` : ""}</div>
+                  <p className="text-neutral-600">{preview}</p>
+                </div>
+
+                <div className="flex justify-between">
+                  <Button
+                    type="button"
+                    disabled={saveMutation.isPending || !body.trim()}
+                    onClick={() => saveMutation.mutate()}
+                  >
+                    <Save className="mr-2" size={16} />
+                    Save Template
+                  </Button>
+                  {stored && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(stored.id)}
+                    >
+                      <RotateCcw className="mr-2" size={16} />
+                      Remove and Fall Back
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Placeholders</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <p className="text-neutral-600">
+                  <code>{"{{name}}"}</code> inserts a value and <code>{"{{name|fallback}}"}</code> uses the fallback when it is empty.
+                  Text between <code>{"{{#name}}"}</code> and <code>{"{{/name}}"}</code> only appears when the value is filled in;
+                  between <code>{"{{^name}}"}</code> and <code>{"{{/name}}"}</code> only when it isn't.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                  {Object.entries(commentPlaceholders).map(([name, description]) => (
+                    <div key={name} className="flex justify-between space-x-2">
+                      <code className="text-neutral-800">{`{{${name}}}`}</code>
+                      <span className="text-neutral-500 text-right">{description}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
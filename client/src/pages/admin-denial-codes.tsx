@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { answerTypeLabels, requirableFields } from "@/lib/denial-codes";
+import PayerOverrideEditor from "@/components/payer-override-editor";
+import QuestionTreeEditor from "@/components/question-tree-editor";
+import FieldRulesEditor, { cleanFieldRules } from "@/components/field-rules-editor";
+import { AnswerType, answerTypes, DenialCode, FieldRule, GroupCode, groupCodes, InsertDenialCode, QuestionTree } from "@shared/schema";
+import { formatDenialCode, groupCodeLabels } from "@shared/group-codes";
+import { ArrowLeft, Book, Plus, Save, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value, so "any" stands in for a null group
+const ANY_GROUP = "any";
+
+type Draft = {
+  groupCode: GroupCode | null;
+  code: string;
+  description: string;
+  commentSummary: string;
+  questions: string;
+  questionAnswerTypes: Record<string, AnswerType>;
+  requiredFields: string[];
+  fieldRules: FieldRule[];
+  nextSteps: string;
+  questionTree: QuestionTree | null;
+};
+
+const emptyDraft: Draft = { groupCode: null, code: "", description: "", commentSummary: "", questions: "", questionAnswerTypes: {}, requiredFields: [], fieldRules: [], nextSteps: "", questionTree: null };
+
+// Questions and next steps are edited one per line
+const toLines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean);
+
+function toDraft(denialCode: DenialCode): Draft {
+  return {
+    groupCode: denialCode.groupCode,
+    code: denialCode.code,
+    description: denialCode.description,
+    commentSummary: denialCode.commentSummary,
+    questions: denialCode.questions.join("\n"),
+    questionAnswerTypes: denialCode.questionAnswerTypes,
+    requiredFields: denialCode.requiredFields,
+    fieldRules: denialCode.fieldRules,
+    nextSteps: denialCode.nextSteps.join("\n"),
+    questionTree: denialCode.questionTree,
+  };
+}
+
+export default function AdminDenialCodes() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+
+  const { data: denialCodes = [], isLoading } = useQuery<DenialCode[]>({
+    queryKey: ["/api/denial-codes"],
+  });
+
+  const selectedCode = denialCodes.find(denialCode => denialCode.id === selectedId);
+
+  const selectCode = (denialCode: DenialCode | null) => {
+    setSelectedId(denialCode?.id ?? null);
+    setDraft(denialCode ? toDraft(denialCode) : emptyDraft);
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertDenialCode): Promise<DenialCode> => {
+      const response = selectedId
+        ? await apiRequest("PATCH", `/api/denial-codes/${selectedId}`, data)
+        : await apiRequest("POST", "/api/denial-codes", data);
+      return response.json();
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/denial-codes"] });
+      selectCode(saved);
+      toast({ title: "Success", description: `${formatDenialCode(saved.groupCode, saved.code)} saved` });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/denial-codes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/denial-codes"] });
+      selectCode(null);
+      toast({ title: "Success", description: "Denial code deleted" });
+    },
+    onError,
+  });
+
+  const toggleRequiredField = (field: string, checked: boolean) => {
+    setDraft({
+      ...draft,
+      requiredFields: checked
+        ? [...draft.requiredFields, field]
+        : draft.requiredFields.filter(existing => existing !== field),
+    });
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Book className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-900">Denial Codes</h1>
+              <p className="text-sm text-neutral-600">Edit the guidance callers see for each denial code</p>
+            </div>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="mr-2" size={16} />
+              Back to Current Call
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card className="md:col-span-1">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Catalog</CardTitle>
+              <Button size="sm" variant="outline" onClick={() => selectCode(null)}>
+                <Plus className="mr-1" size={14} />
+                New
+              </Button>
+            </CardHeader>
+            <CardContent className="p-0">
+              <ScrollArea className="h-[600px]">
+                {denialCodes.map((denialCode) => (
+                  <button
+                    key={denialCode.id}
+                    type="button"
+                    onClick={() => selectCode(denialCode)}
+                    className={`w-full text-left px-4 py-3 border-b border-neutral-100 hover:bg-neutral-50 ${
+                      selectedId === denialCode.id ? "bg-primary/5 border-l-4 border-l-primary" : ""
+                    }`}
+                  >
+                    <div className="font-medium text-sm">{formatDenialCode(denialCode.groupCode, denialCode.code)}</div>
+                    <div className="text-xs text-neutral-500 truncate">{denialCode.description}</div>
+                  </button>
+                ))}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+
+          <div className="md:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>{selectedId ? `Edit ${formatDenialCode(draft.groupCode, draft.code)}` : "Add Denial Code"}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    saveMutation.mutate({
+                      groupCode: draft.groupCode,
+                      code: draft.code,
+                      description: draft.description,
+                      commentSummary: draft.commentSummary,
+                      questions: toLines(draft.questions),
+                      // Only keep types for questions that still exist; free text is the default
+                      questionAnswerTypes: Object.fromEntries(
+                        toLines(draft.questions)
+                          .filter(question => (draft.questionAnswerTypes[question] ?? "text") !== "text")
+                          .map(question => [question, draft.questionAnswerTypes[question]]),
+                      ),
+                      requiredFields: draft.requiredFields,
+                      fieldRules: cleanFieldRules(draft.fieldRules),
+                      nextSteps: toLines(draft.nextSteps),
+                      questionTree: draft.questionTree,
+                    });
+                  }}
+                >
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div className="space-y-2">
+                      <Label>Group Code</Label>
+                      <Select
+                        value={draft.groupCode ?? ANY_GROUP}
+                        onValueChange={(value) => setDraft({ ...draft, groupCode: value === ANY_GROUP ? null : value as GroupCode })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY_GROUP}>Any group</SelectItem>
+                          {groupCodes.map((groupCode) => (
+                            <SelectItem key={groupCode} value={groupCode}>
+                              {groupCode} - {groupCodeLabels[groupCode]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="denial-code">Reason Code</Label>
+                      <Input id="denial-code" placeholder="97" value={draft.code} onChange={(e) => setDraft({ ...draft, code: e.target.value })} />
+                    </div>
+                    <div className="space-y-2 md:col-span-2">
+                      <Label htmlFor="denial-description">Description</Label>
+                      <Input id="denial-description" value={draft.description} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="denial-comment-summary">Comment Summary</Label>
+                    <Input
+                      id="denial-comment-summary"
+                      placeholder="Charge exceeds fee schedule. Payment adjusted to contracted rate"
+                      value={draft.commentSummary}
+                      onChange={(e) => setDraft({ ...draft, commentSummary: e.target.value })}
+                    />
+                    <p className="text-xs text-neutral-500">
+                      Fills {"{{summary}}"} in comment templates and can use the same placeholders, e.g. {"{{eligibilityFrom}}"}. Blank reads "Denial documented per rep guidance".
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="denial-questions">Questions to Ask Rep (one per line)</Label>
+                    <Textarea id="denial-questions" className="min-h-[120px]" value={draft.questions} onChange={(e) => setDraft({ ...draft, questions: e.target.value })} />
+                    {toLines(draft.questions).length > 0 && (
+                      <div className="space-y-2 pt-1">
+                        <p className="text-xs text-neutral-500">Answer input for each question</p>
+                        {toLines(draft.questions).map((question) => (
+                          <div key={question} className="flex items-center justify-between space-x-3">
+                            <span className="text-sm text-neutral-700 truncate">{question}</span>
+                            <Select
+                              value={draft.questionAnswerTypes[question] ?? "text"}
+                              onValueChange={(answerType) => setDraft({
+                                ...draft,
+                                questionAnswerTypes: { ...draft.questionAnswerTypes, [question]: answerType as AnswerType },
+                              })}
+                            >
+                              <SelectTrigger className="w-36 h-8 flex-shrink-0">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {answerTypes.map((answerType) => (
+                                  <SelectItem key={answerType} value={answerType}>{answerTypeLabels[answerType]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Call Script</Label>
+                    <p className="text-xs text-neutral-500">A branching script replaces the question list above in the guidance panel; the path the caller takes is saved with the account.</p>
+                    <QuestionTreeEditor value={draft.questionTree} onChange={(questionTree) => setDraft({ ...draft, questionTree })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Required Fields</Label>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {requirableFields.map((field) => (
+                        <label key={field.value} className="flex items-center space-x-2 text-sm text-neutral-700">
+                          <Checkbox
+                            checked={draft.requiredFields.includes(field.value)}
+                            onCheckedChange={(checked) => toggleRequiredField(field.value, checked === true)}
+                          />
+                          <span>{field.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Conditional Rules</Label>
+                    <p className="text-xs text-neutral-500">Fields required only in some situations, and date fields that must fall in order. Date order is checked whenever the account is saved.</p>
+                    <FieldRulesEditor value={draft.fieldRules} onChange={(fieldRules) => setDraft({ ...draft, fieldRules })} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="denial-next-steps">Recommended Next Steps (one per line)</Label>
+                    <Textarea id="denial-next-steps" className="min-h-[100px]" value={draft.nextSteps} onChange={(e) => setDraft({ ...draft, nextSteps: e.target.value })} />
+                  </div>
+                  <div className="flex justify-between">
+                    <Button type="submit" disabled={saveMutation.isPending}>
+                      <Save className="mr-2" size={16} />
+                      Save
+                    </Button>
+                    {selectedId && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="text-red-600 hover:text-red-700"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`Delete ${formatDenialCode(draft.groupCode, draft.code)}? Accounts already documented with it keep the code.`)) {
+                            deleteMutation.mutate(selectedId);
+                          }
+                        }}
+                      >
+                        <Trash2 className="mr-2" size={16} />
+                        Delete
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+            {selectedCode && <PayerOverrideEditor key={selectedCode.id} denialCode={selectedCode} />}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NoteDictionaryEntry, Organization } from "@shared/schema";
+import { cleanUpNotes, noteDictionaryFor } from "@shared/note-cleanup";
+import NoteChanges from "@/components/note-changes";
+import { ArrowLeft, ArrowRight, BookA, Plus, Trash2 } from "lucide-react";
+
+// Select items can't have an empty value, so "all" stands in for the entries every organization shares
+const ALL_ORGANIZATIONS = "all";
+
+const queryKey = ["/api/note-dictionary"];
+
+interface EntryRowProps {
+  entry: NoteDictionaryEntry;
+  onSave: (updates: { phrase?: string; replacement?: string }) => void;
+  onDelete: () => void;
+}
+
+// One entry with inputs that save once the admin leaves them
+function EntryRow({ entry, onSave, onDelete }: EntryRowProps) {
+  const [phrase, setPhrase] = useState(entry.phrase);
+  const [replacement, setReplacement] = useState(entry.replacement);
+  useEffect(() => setPhrase(entry.phrase), [entry.phrase]);
+  useEffect(() => setReplacement(entry.replacement), [entry.replacement]);
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Input
+        className="h-8 font-mono text-sm"
+        value={phrase}
+        onChange={(e) => setPhrase(e.target.value)}
+        onBlur={() => {
+          if (phrase.trim() && phrase !== entry.phrase) onSave({ phrase });
+        }}
+      />
+      <ArrowRight size={14} className="shrink-0 text-neutral-400" />
+      <Input
+        className="h-8 text-sm"
+        value={replacement}
+        onChange={(e) => setReplacement(e.target.value)}
+        onBlur={() => {
+          if (replacement.trim() && replacement !== entry.replacement) onSave({ replacement });
+        }}
+      />
+      <Button type="button" variant="ghost" size="sm" className="h-8 text-red-600 hover:text-red-700" onClick={onDelete}>
+        <Trash2 size={14} />
+      </Button>
+    </div>
+  );
+}
+
+export default function AdminNoteDictionary() {
+  const { toast } = useToast();
+  const [organizationId, setOrganizationId] = useState<number | null>(null);
+  const [newPhrase, setNewPhrase] = useState("");
+  const [newReplacement, setNewReplacement] = useState("");
+  const [sampleNotes, setSampleNotes] = useState("pt called, mcr is prim. PT RESP per dx code. submit on 14032025 w/ auth");
+
+  const { data: organizations = [] } = useQuery<Organization[]>({ queryKey: ["/api/organizations"] });
+  const { data: entries = [], isLoading } = useQuery<NoteDictionaryEntry[]>({ queryKey });
+
+  const scopedEntries = entries.filter(entry => entry.organizationId === organizationId);
+  // Shared phrases this organization has its own replacement for
+  const overridden = new Set(organizationId ? scopedEntries.map(entry => entry.phrase) : []);
+  const sharedEntries = organizationId ? entries.filter(entry => entry.organizationId === null) : [];
+  const sample = cleanUpNotes(sampleNotes, noteDictionaryFor(entries, organizationId));
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/note-dictionary", { organizationId, phrase: newPhrase, replacement: newReplacement });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setNewPhrase("");
+      setNewReplacement("");
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: { phrase?: string; replacement?: string } }) => {
+      await apiRequest("PATCH", `/api/note-dictionary/${id}`, updates);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError: (error: Error) => {
+      // Put the inputs back to what is stored
+      queryClient.invalidateQueries({ queryKey });
+      onError(error);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/note-dictionary/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey }),
+    onError,
+  });
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <BookA className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-900">Note Dictionary</h1>
+              <p className="text-sm text-neutral-600">Shorthand and misspellings expanded when call notes go into a comment</p>
+            </div>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="mr-2" size={16} />
+              Back to Current Call
+            </Link>
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <Card className="md:col-span-2">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>Entries</CardTitle>
+              <Select
+                value={organizationId?.toString() ?? ALL_ORGANIZATIONS}
+                onValueChange={(value) => setOrganizationId(value === ALL_ORGANIZATIONS ? null : parseInt(value))}
+              >
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ORGANIZATIONS}>All organizations</SelectItem>
+                  {organizations.map((organization) => (
+                    <SelectItem key={organization.id} value={organization.id.toString()}>{organization.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-xs text-neutral-500">
+                Phrases match whole words in any case and may span several words. A replacement written all lowercase follows
+                the case of what was typed ("PT" becomes "PATIENT", "Pt" becomes "Patient"); one with capitals is used as written.
+                {organizationId ? " This organization's entries replace shared ones with the same phrase." : ""}
+              </p>
+
+              <form
+                className="flex items-end space-x-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (newPhrase.trim() && newReplacement.trim()) createMutation.mutate();
+                }}
+              >
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="new-phrase">Typed as</Label>
+                  <Input id="new-phrase" className="font-mono" placeholder="e.g. ptr" value={newPhrase} onChange={(e) => setNewPhrase(e.target.value)} />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="new-replacement">Written as</Label>
+                  <Input id="new-replacement" placeholder="e.g. patient responsibility" value={newReplacement} onChange={(e) => setNewReplacement(e.target.value)} />
+                </div>
+                <Button type="submit" variant="outline" disabled={createMutation.isPending || !newPhrase.trim() || !newReplacement.trim()}>
+                  <Plus className="mr-1" size={14} />
+                  Add
+                </Button>
+              </form>
+
+              <div className="space-y-2">
+                {scopedEntries.length === 0 && (
+                  <p className="text-sm text-neutral-500">No entries{organizationId ? " of its own yet" : ""}</p>
+                )}
+                {scopedEntries.map((entry) => (
+                  <EntryRow
+                    key={entry.id}
+                    entry={entry}
+                    onSave={(updates) => updateMutation.mutate({ id: entry.id, updates })}
+                    onDelete={() => deleteMutation.mutate(entry.id)}
+                  />
+                ))}
+              </div>
+
+              {sharedEntries.length > 0 && (
+                <div className="space-y-2 pt-4 border-t border-neutral-100">
+                  <div className="text-sm font-medium text-neutral-700">Shared with every organization</div>
+                  <div className="flex flex-wrap gap-1">
+                    {sharedEntries.map((entry) => (
+                      <Badge
+                        key={entry.id}
+                        variant="outline"
+                        className={`font-normal ${overridden.has(entry.phrase) ? "line-through text-neutral-400" : ""}`}
+                      >
+                        {entry.phrase} → {entry.replacement}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-1">
+            <CardHeader>
+              <CardTitle>Try It</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea className="min-h-[100px] text-sm" value={sampleNotes} onChange={(e) => setSampleNotes(e.target.value)} />
+              <div className="rounded-md border border-neutral-200 bg-neutral-50 p-3 text-sm">{sample.text || "—"}</div>
+              <NoteChanges changes={sample.changes} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
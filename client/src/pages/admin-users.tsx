@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { InsertUser, PublicUser, UpdateUser, UserRole, userRoles } from "@shared/schema";
+import { roleLabels } from "@shared/roles";
+import { ArrowLeft, UserPlus, Users } from "lucide-react";
+
+function RoleSelect({ value, onChange, disabled }: { value: UserRole; onChange: (role: UserRole) => void; disabled?: boolean }) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as UserRole)} disabled={disabled}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {userRoles.map((role) => (
+          <SelectItem key={role} value={role}>
+            {roleLabels[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function AdminUsers() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("caller");
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const createUserMutation = useMutation({
+    mutationFn: async (data: InsertUser) => {
+      const response = await apiRequest("POST", "/api/users", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setUsername("");
+      setPassword("");
+      setRole("caller");
+      toast({ title: "Success", description: "User created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateUser }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Success", description: "User updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Users className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-900">Users</h1>
+              <p className="text-sm text-neutral-600">Manage who can sign in and what they can see</p>
+            </div>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="mr-2" size={16} />
+              Back to Current Call
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Add User</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form
+              className="flex items-end gap-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createUserMutation.mutate({ username, password, role });
+              }}
+            >
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="new-username">Username</Label>
+                <Input id="new-username" value={username} onChange={(e) => setUsername(e.target.value)} />
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="new-password">Temporary Password</Label>
+                <Input id="new-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Role</Label>
+                <RoleSelect value={role} onChange={setRole} />
+              </div>
+              <Button type="submit" disabled={createUserMutation.isPending}>
+                <UserPlus className="mr-2" size={16} />
+                Add
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Users</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Username</TableHead>
+                  <TableHead>Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell>{user.username}</TableCell>
+                    <TableCell>
+                      <RoleSelect
+                        value={user.role}
+                        disabled={user.id === currentUser?.id}
+                        onChange={(newRole) => updateUserMutation.mutate({ id: user.id, data: { role: newRole } })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AccountCommentEntry, CallSession, ClaimLine, PatientAccount, QuestionAnswer } from "@shared/schema";
+import { formatAnswer, generateRCMComment, getInsuranceLabel, lastFinalizedComment } from "@/lib/denial-codes";
+import { resumeCallSession } from "@/lib/call-sessions";
+import { formatCents } from "@shared/money";
+import { denialCodeParts, formatDenialCode, groupCodeLabels } from "@shared/group-codes";
+import { downloadSessionCsv } from "@/lib/session-export";
+import { useCommentContext } from "@/hooks/use-comment-context";
+import ClaimLinesGrid from "@/components/claim-lines-grid";
+import AccountStatusBadge from "@/components/account-status-badge";
+import CommentHistory from "@/components/comment-history";
+import CommentDiff from "@/components/comment-diff";
+import { AlertCircle, ArrowLeft, Download, PlayCircle } from "lucide-react";
+
+function DetailField({ label, value }: { label: string; value?: string | null }) {
+  return (
+    <div>
+      <dt className="text-xs font-medium uppercase text-neutral-500">{label}</dt>
+      <dd className="text-sm text-neutral-900 whitespace-pre-wrap">{value || '—'}</dd>
+    </div>
+  );
+}
+
+export default function SessionDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [activeAccountId, setActiveAccountId] = useState<number | null>(null);
+
+  const { data: session, isLoading: sessionLoading } = useQuery<CallSession>({
+    queryKey: ["/api/sessions", id],
+  });
+  const { data: accounts = [], isLoading: accountsLoading } = useQuery<PatientAccount[]>({
+    queryKey: ["/api/accounts", id],
+  });
+
+  const activeAccount = accounts.find(account => account.id === activeAccountId) ?? accounts[0];
+  const activeDenial = activeAccount ? denialCodeParts(activeAccount) : null;
+
+  const { data: claimLines = [] } = useQuery<ClaimLine[]>({
+    queryKey: ["/api/accounts", activeAccount?.id, "claim-lines"],
+    enabled: !!activeAccount,
+  });
+
+  const { data: questionAnswers = [] } = useQuery<QuestionAnswer[]>({
+    queryKey: ["/api/accounts", activeAccount?.id, "answers"],
+    enabled: !!activeAccount,
+  });
+
+  const { data: accountComments = [] } = useQuery<AccountCommentEntry[]>({
+    queryKey: ["/api/accounts", activeAccount?.id, "comments"],
+    enabled: !!activeAccount,
+  });
+
+  const commentContext = useCommentContext(session?.organizationId);
+  const finalComment = lastFinalizedComment(accountComments);
+  // The generated wording the caller edited into the final comment, if they edited it
+  const finalCommentOrigin = finalComment?.source === "edited"
+    ? accountComments.find(comment => comment.id === finalComment.generatedFromId)
+    : undefined;
+
+  const resume = async () => {
+    try {
+      await resumeCallSession(id);
+      navigate("/");
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to resume call session", variant: "destructive" });
+    }
+  };
+
+  const exportSession = async () => {
+    try {
+      await downloadSessionCsv(id, accounts);
+      toast({ title: "Session Exported", description: "CSV file has been downloaded with all account data" });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to export session", variant: "destructive" });
+    }
+  };
+
+  if (sessionLoading || accountsLoading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-center h-screen text-neutral-500">
+        <div className="text-center">
+          <AlertCircle size={48} className="mx-auto mb-4" />
+          <p>Call session not found</p>
+          <Link href="/sessions" className="text-sm text-primary">Back to session history</Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-neutral-50">
+      <header className="bg-white border-b border-neutral-200 px-6 py-4 shadow-sm">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-semibold text-neutral-900">
+              Call on {session.startedAt ? new Date(session.startedAt).toLocaleString() : 'unknown date'}
+            </h1>
+            <p className="text-sm text-neutral-600">
+              {session.payer ? getInsuranceLabel(session.payer) : 'No payer recorded'}
+              {session.phoneNumber && ` · ${session.phoneNumber}`}
+              {session.callerName && ` · Caller: ${session.callerName}`}
+            </p>
+          </div>
+          <div className="flex items-center space-x-4">
+            <Badge variant="outline">Read only</Badge>
+            <Button variant="outline" asChild>
+              <Link href="/sessions">
+                <ArrowLeft className="mr-2" size={16} />
+                Session History
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={exportSession}>
+              <Download className="mr-2" size={16} />
+              Export Session
+            </Button>
+            {session.userId === user?.id && (
+              <Button onClick={resume}>
+                <PlayCircle className="mr-2" size={16} />
+                Resume Call
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="w-80 bg-white border-r border-neutral-200 flex flex-col">
+          <div className="p-4 border-b border-neutral-200">
+            <h2 className="text-lg font-semibold text-neutral-900">Patient Accounts</h2>
+            <p className="text-sm text-neutral-600">{accounts.length} account(s) on this call</p>
+          </div>
+          <ScrollArea className="flex-1">
+            {accounts.map((account) => (
+              <div
+                key={account.id}
+                className={`border-b border-neutral-200 p-4 cursor-pointer hover:bg-neutral-50 transition-colors ${
+                  activeAccount?.id === account.id ? 'bg-primary/5 border-l-4 border-l-primary' : ''
+                }`}
+                onClick={() => setActiveAccountId(account.id)}
+              >
+                <h3 className="font-medium text-neutral-900 truncate">{account.patientName}</h3>
+                <p className="text-sm text-neutral-600 truncate">{account.accountNumber}</p>
+                <div className="flex items-center mt-2 space-x-2">
+                  <AccountStatusBadge status={account.status} />
+                  {account.denialCode && (
+                    <Badge variant="outline">{formatDenialCode(denialCodeParts(account).groupCode, denialCodeParts(account).reasonCode)}</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </ScrollArea>
+        </div>
+
+        <div className="flex-1 bg-white overflow-y-auto">
+          {activeAccount ? (
+            <div className="p-6 max-w-4xl mx-auto space-y-6">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-neutral-900">
+                  {activeAccount.patientName} - Account Details
+                </h2>
+                <AccountStatusBadge status={activeAccount.status} />
+              </div>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Account</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <dl className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <DetailField label="Patient Name" value={activeAccount.patientName} />
+                    <DetailField label="Account Number" value={activeAccount.accountNumber} />
+                    <DetailField label="Date of Service" value={activeAccount.dateOfService} />
+                    <DetailField label="Insurance" value={getInsuranceLabel(activeAccount.insuranceName)} />
+                    <DetailField label="Rep Name" value={activeAccount.repName} />
+                    <DetailField label="Call Reference #" value={activeAccount.callReference} />
+                    <DetailField label="Group Code" value={activeDenial?.groupCode && `${activeDenial.groupCode} - ${groupCodeLabels[activeDenial.groupCode]}`} />
+                    <DetailField label="Reason Code" value={activeDenial?.reasonCode} />
+                    <DetailField label="Remark Codes" value={activeAccount.remarkCodes.join(", ")} />
+                    <DetailField label="Eligibility Status" value={activeAccount.eligibilityStatus} />
+                    <DetailField label="Eligibility From Date" value={activeAccount.eligibilityFromDate} />
+                    <DetailField label="Eligibility Term Date" value={activeAccount.eligibilityTermDate} />
+                    <DetailField label="Claim Number" value={activeAccount.claimNumber} />
+                    <DetailField label="Authorization Number" value={activeAccount.authorizationNumber} />
+                    <DetailField label="Billed Amount" value={formatCents(activeAccount.billedAmount)} />
+                    <DetailField label="Allowed Amount" value={formatCents(activeAccount.allowedAmount)} />
+                    <DetailField label="Paid Amount" value={formatCents(activeAccount.paidAmount)} />
+                    <DetailField label="Adjustments" value={formatCents(activeAccount.adjustmentAmount)} />
+                    <DetailField label="Patient Responsibility" value={formatCents(activeAccount.patientResponsibility)} />
+                    <DetailField label="Outstanding Balance" value={formatCents(activeAccount.outstandingBalance)} />
+                  </dl>
+                  <dl className="mt-4 space-y-4">
+                    <DetailField label="Denial Description" value={activeAccount.denialDescription} />
+                    <DetailField label="Additional Notes" value={activeAccount.additionalNotes} />
+                  </dl>
+                </CardContent>
+              </Card>
+              {(activeAccount.questionPath.length > 0 || questionAnswers.length > 0) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Rep Answers</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ol className="space-y-2 text-sm list-decimal list-inside">
+                      {activeAccount.questionPath.map((step) => (
+                        <li key={step.nodeId}>
+                          <span className="text-neutral-600">"{step.question}"</span>
+                          <Badge variant="outline" className="ml-2">{step.answer}</Badge>
+                        </li>
+                      ))}
+                      {questionAnswers.map((answer) => (
+                        <li key={answer.id}>
+                          <span className="text-neutral-600">"{answer.question}"</span>
+                          <span className="ml-2 font-medium">{formatAnswer(answer.answerType, answer.value)}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </CardContent>
+                </Card>
+              )}
+              <ClaimLinesGrid accountId={activeAccount.id} readOnly />
+              <Card className="bg-primary-light border-primary/20">
+                <CardHeader>
+                  <CardTitle>RCM Comment</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {finalComment ? (
+                    <>
+                      <p className="bg-white rounded-lg p-4 border text-sm whitespace-pre-wrap">{finalComment.body}</p>
+                      {finalCommentOrigin && finalCommentOrigin.body !== finalComment.body && (
+                        <div>
+                          <p className="text-xs font-medium text-neutral-600 mb-2">Edited from the generated comment</p>
+                          <CommentDiff generated={finalCommentOrigin.body} final={finalComment.body} />
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div>
+                      <p className="text-xs text-neutral-500 mb-2">No comment was copied for this account; this is what the generator produces from the saved data</p>
+                      <p className="bg-white rounded-lg p-4 border text-sm">{generateRCMComment(activeAccount, claimLines, questionAnswers, commentContext)}</p>
+                    </div>
+                  )}
+                  <CommentHistory comments={accountComments} />
+                </CardContent>
+              </Card>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center h-full text-neutral-500">
+              <p>No accounts were recorded on this call</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { hasRole } from "@shared/roles";
+import { CallSessionSummary } from "@shared/schema";
+import { getInsuranceLabel } from "@/lib/denial-codes";
+import { resumeCallSession } from "@/lib/call-sessions";
+import { ArrowLeft, Eye, History, PlayCircle } from "lucide-react";
+
+export default function Sessions() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const canSeeAllCallers = !!user && hasRole(user.role, "supervisor");
+  const { data: sessions = [], isLoading } = useQuery<CallSessionSummary[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const resume = async (sessionId: string) => {
+    try {
+      await resumeCallSession(sessionId);
+      navigate("/");
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to resume call session", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return <div className="flex items-center justify-center h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50 p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <History className="text-primary" size={24} />
+            <div>
+              <h1 className="text-xl font-semibold text-neutral-900">Session History</h1>
+              <p className="text-sm text-neutral-600">
+                {canSeeAllCallers ? "Every caller's past calls" : "Past calls and the accounts worked on each"}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="mr-2" size={16} />
+              Back to Current Call
+            </Link>
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Calls</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sessions.length === 0 ? (
+              <p className="text-center text-neutral-500 py-8">No call sessions yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Payer</TableHead>
+                    <TableHead>Rep Name</TableHead>
+                    <TableHead>Caller</TableHead>
+                    <TableHead className="text-right">Accounts</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell>{session.startedAt ? new Date(session.startedAt).toLocaleString() : ''}</TableCell>
+                      <TableCell>{session.payer ? getInsuranceLabel(session.payer) : '—'}</TableCell>
+                      <TableCell>{session.repName || '—'}</TableCell>
+                      <TableCell>{session.callerName || '—'}</TableCell>
+                      <TableCell className="text-right">{session.accountCount}</TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={session.status === 'open' ? 'border-green-200 text-green-700 bg-green-50' : 'border-neutral-200 text-neutral-700 bg-neutral-50'}
+                        >
+                          {session.status === 'open' ? 'Open' : 'Closed'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button variant="ghost" size="sm" asChild>
+                          <Link href={`/sessions/${session.id}`}>
+                            <Eye className="mr-1" size={14} />
+                            View
+                          </Link>
+                        </Button>
+                        {session.userId === user?.id && (
+                          <Button variant="ghost" size="sm" onClick={() => resume(session.id)}>
+                            <PlayCircle className="mr-1" size={14} />
+                            Resume
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
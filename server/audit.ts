@@ -0,0 +1,41 @@
+import type { Request } from "express";
+import type { AuditChanges, PatientAccount } from "@shared/schema";
+import { storage } from "./storage";
+
+type AuditAction = "read" | "create" | "update" | "delete" | "export";
+
+// Bookkeeping columns that change on every write and say nothing about who changed what
+const untrackedFields = new Set(["id", "createdAt", "updatedAt"]);
+
+// Field-level before/after for every value that differs between two versions of a record
+export function diffRecord<T extends object>(before: Partial<T>, after: Partial<T>, prefix = ""): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of Array.from(fields)) {
+    if (untrackedFields.has(field)) continue;
+    const previous = before[field as keyof T] ?? null;
+    const next = after[field as keyof T] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[`${prefix}${field}`] = { before: previous, after: next };
+    }
+  }
+  return changes;
+}
+
+// Record that the signed-in user performed `action` on each of the given accounts
+export async function recordAudit(
+  req: Request,
+  action: AuditAction,
+  accounts: Pick<PatientAccount, "id" | "sessionId">[],
+  changes?: AuditChanges,
+): Promise<void> {
+  for (const account of accounts) {
+    await storage.createAuditEvent({
+      userId: req.user!.id,
+      action,
+      accountId: account.id,
+      sessionId: account.sessionId,
+      changes: changes ?? null,
+    });
+  }
+}
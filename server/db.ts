@@ -0,0 +1,17 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle, type NeonDatabase } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// What DbStorage queries through. Any Drizzle Postgres driver fits, so tests can run it on PGlite.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type NeonDb = NeonDatabase<typeof schema> & { $client: Pool };
+
+export function createDb(connectionString: string): NeonDb {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
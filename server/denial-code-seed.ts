@@ -0,0 +1,496 @@
+import type { InsertDenialCode } from "@shared/schema";
+
+// Starter catalog loaded into an empty denial_codes table; admins maintain it from there
+export const defaultDenialCodes: InsertDenialCode[] = [
+  {
+    groupCode: "CO",
+    code: "4",
+    description: "The procedure code is inconsistent with the modifier used or a required modifier is missing",
+    commentSummary: "Modifier issue identified. Procedure code requires correct modifier for reimbursement",
+    questions: [
+      "Which modifier was used or is missing?",
+      "Is the procedure code correct for the service provided?",
+      "What documentation supports the modifier usage?",
+      "Does the modifier match the diagnosis?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review modifier requirements",
+      "Verify procedure code accuracy",
+      "Prepare corrected claim for resubmission"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "6",
+    description: "The procedure/revenue code is inconsistent with the patient's age",
+    commentSummary: "Age-related procedure code issue. Service not appropriate for patient age",
+    questions: [
+      "What is the patient's age?",
+      "Is the procedure code age-appropriate?",
+      "Are there alternative procedure codes for this age group?",
+      "Is there documentation supporting the service for this age?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Verify patient age in records",
+      "Review age-appropriate procedure codes",
+      "Submit corrected claim if necessary"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "11",
+    description: "The diagnosis is inconsistent with the procedure",
+    commentSummary: "Diagnosis-procedure mismatch. Additional documentation required to support procedure",
+    questions: [
+      "What diagnosis codes were submitted?",
+      "Do the diagnosis codes support the procedure?",
+      "Is there a more appropriate diagnosis code?",
+      "Is additional documentation needed to support the procedure?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review diagnosis and procedure code relationship",
+      "Gather supporting medical documentation",
+      "Consider alternative diagnosis codes"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "15",
+    description: "The authorization number is missing, invalid, or does not apply to the billed services or provider",
+    commentSummary: "Authorization missing or invalid. Valid authorization required for reimbursement",
+    questions: [
+      "Was prior authorization obtained?",
+      "What is the authorization number and expiration date?",
+      "Does the authorization cover the specific service?",
+      "Is the authorization for the correct provider?"
+    ],
+    questionAnswerTypes: {
+      "Was prior authorization obtained?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    fieldRules: [
+      { type: "required", field: "authorizationNumber" }
+    ],
+    nextSteps: [
+      "Verify authorization requirements",
+      "Obtain valid authorization if needed",
+      "Resubmit with correct authorization number"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "16",
+    description: "Claim/service lacks information or has submission/billing error(s)",
+    commentSummary: "Missing/incorrect information identified. Correction and resubmission required",
+    questions: [
+      "What specific information is missing?",
+      "What type of billing error was identified?",
+      "Can the claim be corrected and resubmitted?",
+      "What documentation is needed for resubmission?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Identify missing information",
+      "Correct billing errors",
+      "Prepare for claim resubmission"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "18",
+    description: "Duplicate claim/service",
+    commentSummary: "Duplicate claim identified. Original claim already processed",
+    questions: [
+      "What is the original claim number or date of submission?",
+      "Was the previous claim paid or processed?",
+      "Is this a true duplicate or a resubmission?",
+      "Should we void one of the claims?"
+    ],
+    questionAnswerTypes: {
+      "Was the previous claim paid or processed?": "yes_no",
+      "Should we void one of the claims?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "callReference"],
+    nextSteps: [
+      "Verify original claim status",
+      "Determine appropriate action",
+      "Process duplicate resolution"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "22",
+    description: "This care may be covered by another payer per coordination of benefits",
+    commentSummary: "COB issue - other payer primary. Primary insurance must be billed first",
+    questions: [
+      "What other insurance does the patient have?",
+      "Which payer should be primary?",
+      "Has the primary insurance been billed first?",
+      "What is the coordination of benefits order?"
+    ],
+    questionAnswerTypes: {
+      "What other insurance does the patient have?": "payer",
+      "Which payer should be primary?": "payer",
+      "Has the primary insurance been billed first?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Verify insurance coordination",
+      "Bill primary payer first",
+      "Update billing sequence"
+    ],
+    questionTree: {
+      start: "otherCoverage",
+      nodes: {
+        otherCoverage: {
+          question: "Does the patient have other coverage on file?",
+          answers: [
+            { label: "Yes", next: "primaryPayer" },
+            { label: "No", next: "cobUpdate" }
+          ]
+        },
+        primaryPayer: {
+          question: "Which payer is primary, and since when?",
+          answers: [
+            { label: "Primary billed", next: "primaryEob" },
+            { label: "Primary not billed yet" }
+          ]
+        },
+        primaryEob: {
+          question: "Do you have the primary EOB on file, or do we need to send it?",
+          answers: [
+            { label: "On file" },
+            { label: "Need to send" }
+          ]
+        },
+        cobUpdate: {
+          question: "Can you update the COB so this payer is primary and reprocess the claim?",
+          answers: [
+            { label: "Yes, reprocessing" },
+            { label: "Patient must call to update COB" }
+          ]
+        }
+      }
+    }
+  },
+  {
+    groupCode: "CO",
+    code: "23",
+    description: "The impact of prior payer(s) adjudication including payments and/or adjustments",
+    commentSummary: "Prior payer adjudication affects payment. Review primary payer payment details",
+    questions: [
+      "What was the primary payer's payment amount?",
+      "Were there any adjustments from the primary payer?",
+      "What is the remaining patient responsibility?",
+      "Should this be billed to secondary insurance?"
+    ],
+    questionAnswerTypes: {
+      "What was the primary payer's payment amount?": "amount",
+      "What is the remaining patient responsibility?": "amount",
+      "Should this be billed to secondary insurance?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review primary payer adjudication",
+      "Calculate remaining balance",
+      "Bill secondary payer if applicable"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "27",
+    description: "Expenses incurred after coverage terminated",
+    commentSummary: "Eligibility {{eligibilityStatus|inactive}} as of {{eligibilityFrom|[Date]}}. Coverage terminated prior to DOS. Patient responsibility confirmed",
+    questions: [
+      "What was the patient's eligibility status on the date of service?",
+      "Was the plan active on the date of service?",
+      "What is the effective and termination date of coverage?",
+      "Is there any possibility of retroactive coverage?"
+    ],
+    questionAnswerTypes: {
+      "Was the plan active on the date of service?": "yes_no",
+      "Is there any possibility of retroactive coverage?": "yes_no"
+    },
+    requiredFields: ["eligibilityStatus", "dateOfService", "repName"],
+    fieldRules: [
+      { type: "required", field: "eligibilityFromDate", when: [{ field: "eligibilityStatus", equals: "terminated" }] },
+      { type: "before", field: "dateOfService", other: "eligibilityTermDate" }
+    ],
+    nextSteps: [
+      "Document termination date in patient record",
+      "Generate final comment for RCM system",
+      "Mark account for patient notification"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "29",
+    description: "The time limit for filing has expired",
+    commentSummary: "Timely filing deadline exceeded. Claim submitted beyond payer deadline",
+    questions: [
+      "What is the filing deadline for this payer?",
+      "When was the service originally provided?",
+      "Are there any exceptions or appeals available?",
+      "Was there a delay in receiving necessary documentation?"
+    ],
+    questionAnswerTypes: {
+      "When was the service originally provided?": "date"
+    },
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Document filing timeline",
+      "Check for appeal options",
+      "Review timely filing policies"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "31",
+    description: "Patient cannot be identified as our insured",
+    commentSummary: "Patient identification issue. Member demographics require verification",
+    questions: [
+      "Is the member ID number correct?",
+      "Has the patient's name changed recently?",
+      "Is the date of birth accurate?",
+      "Are there any aliases or alternate spellings?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Verify patient demographics",
+      "Check for name changes or aliases",
+      "Obtain updated insurance information"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "45",
+    description: "Charge exceeds fee schedule/maximum allowable or contracted/legislated fee arrangement",
+    commentSummary: "Charge exceeds fee schedule. Payment adjusted to contracted rate",
+    questions: [
+      "What is the contracted rate for this service?",
+      "Is this the correct procedure code?",
+      "Are there any modifiers that should be applied?",
+      "Is the provider in-network or out-of-network?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review fee schedule",
+      "Verify procedure coding",
+      "Check contract terms"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "50",
+    description: "These are non-covered services because this is not deemed a 'medical necessity'",
+    commentSummary: "Medical necessity criteria not met per payer guidelines. Additional documentation required for appeal",
+    questions: [
+      "What criteria was used to determine medical necessity?",
+      "Is there additional documentation that supports necessity?",
+      "Was a peer-to-peer review conducted?",
+      "Are there appeal options available?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Gather additional medical documentation",
+      "Consider peer-to-peer review",
+      "Prepare appeal if warranted"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "96",
+    description: "Non-covered charge(s). At least one Remark Code must be provided",
+    commentSummary: "Non-covered service per plan benefits. Plan exclusion applies",
+    questions: [
+      "What specific remark codes were provided?",
+      "Why is this service considered non-covered?",
+      "Are there any covered alternatives?",
+      "Is this a plan exclusion or limitation?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review remark codes",
+      "Check plan benefits",
+      "Explore alternatives"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "97",
+    description: "The benefit for this service is included in the payment/allowance for another service/procedure",
+    commentSummary: "Service bundled with primary procedure per payer policy. No additional payment available",
+    questions: [
+      "Which primary service was this bundled with?",
+      "Was the bundled service paid correctly?",
+      "Is there documentation showing separate services?",
+      "What is the bundling policy for this procedure?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review bundling documentation",
+      "Verify primary service payment status",
+      "Document bundling rationale"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "109",
+    description: "Claim not covered by this payer/contractor. You must send the claim to the correct payer/contractor",
+    commentSummary: "Wrong payer - claim must go to correct insurance carrier",
+    questions: [
+      "Which payer should receive this claim?",
+      "What insurance information do we have on file?",
+      "Has the patient's coverage changed?",
+      "Do we need updated insurance cards?"
+    ],
+    questionAnswerTypes: {
+      "Which payer should receive this claim?": "payer",
+      "Has the patient's coverage changed?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Verify correct payer",
+      "Update insurance information",
+      "Resubmit to appropriate payer"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "151",
+    description: "Payment adjusted because the payer deems the information submitted does not support this many/frequency of services",
+    commentSummary: "Service frequency exceeds guidelines. Medical necessity required for additional units",
+    questions: [
+      "What frequency limits apply to this service?",
+      "How many units were billed versus allowed?",
+      "Is there documentation supporting medical necessity?",
+      "Are there any diagnosis codes that would support additional units?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review frequency guidelines",
+      "Gather supporting documentation",
+      "Consider appeal if warranted"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "167",
+    description: "This (these) diagnosis(es) is (are) not covered",
+    commentSummary: "Diagnosis not covered per plan benefits. Review covered diagnosis list",
+    questions: [
+      "Which specific diagnosis codes were denied?",
+      "Are there alternative diagnosis codes that would be covered?",
+      "Is there additional documentation to support the diagnosis?",
+      "Does the plan have specific exclusions for this condition?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review covered diagnosis list",
+      "Consider alternative diagnosis codes",
+      "Gather supporting documentation"
+    ]
+  },
+  {
+    groupCode: "CO",
+    code: "170",
+    description: "Payment is denied when performed/billed by this type of provider",
+    commentSummary: "Provider type restriction. Service not covered when performed by this provider type",
+    questions: [
+      "What type of provider performed the service?",
+      "Is the provider credentialed for this service?",
+      "Are there provider type restrictions for this procedure?",
+      "Can the service be performed by a different provider type?"
+    ],
+    requiredFields: ["dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Verify provider credentials",
+      "Check service restrictions by provider type",
+      "Consider referral to appropriate provider"
+    ]
+  },
+  {
+    groupCode: "PR",
+    code: "1",
+    description: "Deductible amount",
+    commentSummary: "Patient deductible responsibility. Annual deductible not met",
+    questions: [
+      "What is the patient's annual deductible?",
+      "How much has been met this year?",
+      "Is this in-network or out-of-network deductible?",
+      "Should we bill the patient for this amount?"
+    ],
+    questionAnswerTypes: {
+      "What is the patient's annual deductible?": "amount",
+      "How much has been met this year?": "amount",
+      "Should we bill the patient for this amount?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "eligibilityStatus"],
+    nextSteps: [
+      "Verify deductible information",
+      "Calculate patient responsibility",
+      "Generate patient statement"
+    ]
+  },
+  {
+    groupCode: "PR",
+    code: "2",
+    description: "Coinsurance amount",
+    commentSummary: "Patient coinsurance responsibility per plan benefits",
+    questions: [
+      "What is the patient's coinsurance percentage?",
+      "Is this based on allowed amount or billed charges?",
+      "Are there any out-of-pocket maximums to consider?",
+      "Should we collect this from the patient?"
+    ],
+    requiredFields: ["dateOfService", "repName", "eligibilityStatus"],
+    nextSteps: [
+      "Calculate coinsurance accurately",
+      "Verify out-of-pocket limits",
+      "Bill patient appropriately"
+    ]
+  },
+  {
+    groupCode: "PR",
+    code: "3",
+    description: "Copayment amount",
+    commentSummary: "Patient copay responsibility confirmed",
+    questions: [
+      "What is the standard copay for this type of service?",
+      "Was the copay collected at time of service?",
+      "Are there any copay exemptions for this patient?",
+      "Should we pursue collection of outstanding copay?"
+    ],
+    questionAnswerTypes: {
+      "What is the standard copay for this type of service?": "amount",
+      "Was the copay collected at time of service?": "yes_no"
+    },
+    requiredFields: ["dateOfService", "repName", "eligibilityStatus"],
+    nextSteps: [
+      "Verify copay requirements",
+      "Check payment history",
+      "Follow up on collections"
+    ]
+  },
+  {
+    groupCode: "PR",
+    code: "204",
+    description: "This service/equipment/drug is not covered under the patient's current benefit plan",
+    commentSummary: "Service not covered under current plan benefits. Plan exclusion confirmed",
+    questions: [
+      "Is prior authorization required for this service?",
+      "What is the patient's current benefit plan?",
+      "Are there any covered alternatives?",
+      "Is this service excluded from the plan?"
+    ],
+    requiredFields: ["eligibilityStatus", "dateOfService", "repName", "additionalNotes"],
+    nextSteps: [
+      "Review benefit plan documentation",
+      "Check for prior authorization requirements",
+      "Notify patient of coverage limitations"
+    ]
+  }
+];
@@ -0,0 +1,86 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const PREFIX = "enc:v1";
+
+export interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+// Application-layer encryption for PHI columns. Values are stored as
+// `enc:v1:<keyId>:<iv>:<authTag>:<ciphertext>` so each one records which key sealed it;
+// the first key encrypts and every key can decrypt, which is what makes rotation possible.
+export class FieldCipher {
+  private keys: Map<string, Buffer>;
+  private activeKey: EncryptionKey;
+
+  constructor(keys: EncryptionKey[]) {
+    if (keys.length === 0) {
+      throw new Error("At least one encryption key is required");
+    }
+    for (const { id, key } of keys) {
+      if (key.length !== 32) {
+        throw new Error(`Encryption key "${id}" must be 32 bytes`);
+      }
+    }
+    this.keys = new Map(keys.map(({ id, key }) => [id, key]));
+    this.activeKey = keys[0];
+  }
+
+  get activeKeyId(): string {
+    return this.activeKey.id;
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(ALGORITHM, this.activeKey.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return [PREFIX, this.activeKey.id, iv.toString("base64"), authTag.toString("base64"), ciphertext.toString("base64")].join(":");
+  }
+
+  // Values written before encryption was enabled are returned unchanged
+  decrypt(value: string): string {
+    if (!isEncrypted(value)) return value;
+
+    const [, , keyId, iv, authTag, ciphertext] = value.split(":");
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`No encryption key configured for key id "${keyId}"`);
+    }
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(authTag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+  }
+
+  // True when the value is plaintext or sealed with a key other than the active one
+  needsReencryption(value: string): boolean {
+    return !isEncrypted(value) || value.split(":")[2] !== this.activeKey.id;
+  }
+}
+
+function isEncrypted(value: string): boolean {
+  return value.startsWith(`${PREFIX}:`);
+}
+
+// PHI_ENCRYPTION_KEYS is a comma-separated list of `<keyId>:<base64 32-byte key>`.
+// To rotate, put the new key first, run `npm run phi:rotate`, then drop the old key.
+export function cipherFromEnv(env: NodeJS.ProcessEnv = process.env): FieldCipher {
+  const configured = env.PHI_ENCRYPTION_KEYS;
+  if (!configured) {
+    throw new Error("PHI_ENCRYPTION_KEYS must be set to store patient accounts in a database");
+  }
+
+  const keys = configured.split(",").map((entry) => {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      throw new Error("PHI_ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>");
+    }
+    return {
+      id: entry.slice(0, separator).trim(),
+      key: Buffer.from(entry.slice(separator + 1).trim(), "base64"),
+    };
+  });
+  return new FieldCipher(keys);
+}
@@ -0,0 +1,25 @@
+import { storage, DbStorage } from "./storage";
+import { readReasonCodeDirectory } from "./reason-codes";
+import { log } from "./vite";
+
+// Loads the CARC and RARC CSVs from the given directory (or REASON_CODE_DIR) into the database.
+// Safe to re-run whenever new lists are published: existing codes are updated in place.
+if (!(storage instanceof DbStorage)) {
+  console.error("DATABASE_URL must be set; in-memory storage loads REASON_CODE_DIR at startup instead");
+  process.exit(1);
+}
+
+const dir = process.argv[2] || process.env.REASON_CODE_DIR;
+if (!dir) {
+  console.error("Usage: npm run codes:import -- <directory>");
+  process.exit(1);
+}
+
+const dbStorage = storage;
+(async () => {
+  const reasonCodes = await readReasonCodeDirectory(dir);
+  await dbStorage.upsertReasonCodes(reasonCodes);
+  const carcs = reasonCodes.filter((reasonCode) => reasonCode.type === "carc").length;
+  log(`imported ${carcs} CARC(s) and ${reasonCodes.length - carcs} RARC(s) from ${dir}`, "codes-import");
+  process.exit(0);
+})();
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { loggerOptionsFromEnv, redact, redactionFields } from "./logger";
+
+describe("redact", () => {
+  const fields = redactionFields(loggerOptionsFromEnv({}));
+
+  it.each([
+    ["account PHI", { id: 1, patientName: "Jane Doe", eligibilityTermDate: "12/31/2024", authorizationNumber: "PA123", status: "open" },
+      { id: 1, patientName: "[REDACTED]", eligibilityTermDate: "[REDACTED]", authorizationNumber: "[REDACTED]", status: "open" }],
+    ["comment bodies in a list", [{ id: 2, body: "Spoke with Dana", source: "edited" }],
+      [{ id: 2, body: "[REDACTED]", source: "edited" }]],
+    ["question answers", { question: "Is there other insurance?", value: "yes" },
+      { question: "Is there other insurance?", value: "[REDACTED]" }],
+    ["audit changes keyed by path", { changes: { "comments.3.body": { before: null, after: "note" }, "questionAnswers.4.question": { before: null, after: "q" } } },
+      { changes: { "comments.3.body": "[REDACTED]", "questionAnswers.4.question": { before: null, after: "q" } } }],
+  ])("masks %s", (_name, input, expected) => {
+    expect(redact(input, fields)).toEqual(expected);
+  });
+});
+
+describe("loggerOptionsFromEnv", () => {
+  it("masks configured fields on top of the defaults", () => {
+    const fields = redactionFields(loggerOptionsFromEnv({ LOG_REDACT_FIELDS: "repName, payer" }));
+    expect(redact({ patientName: "Jane Doe", accountNumber: "A-1", repName: "Dana", payer: "aetna", status: "open" }, fields))
+      .toEqual({ patientName: "[REDACTED]", accountNumber: "[REDACTED]", repName: "[REDACTED]", payer: "[REDACTED]", status: "open" });
+  });
+});
@@ -0,0 +1,106 @@
+import type { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import type { PatientAccount } from "@shared/schema";
+
+// Patient account columns that identify a patient or their care and must never reach the logs
+const defaultPhiFields: (keyof PatientAccount)[] = [
+  "patientName",
+  "accountNumber",
+  "claimNumber",
+  "dateOfService",
+  "eligibilityFromDate",
+  "eligibilityTermDate",
+  "authorizationNumber",
+  "callReference",
+  "additionalNotes",
+];
+
+// Credentials, comment bodies and question answers are masked regardless of configuration
+const alwaysRedacted = ["password", "body", "value"];
+
+const REDACTED = "[REDACTED]";
+
+export interface LoggerOptions {
+  // Keys whose values are masked wherever they appear in a logged body
+  redactFields: string[];
+  // Include masked response bodies in request logs
+  debug: boolean;
+}
+
+export function loggerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): LoggerOptions {
+  // Configured fields are masked on top of the defaults; they can't switch a default off
+  const configured = env.LOG_REDACT_FIELDS?.split(",").map((field) => field.trim()).filter(Boolean) ?? [];
+  return {
+    redactFields: Array.from(new Set([...defaultPhiFields, ...configured])),
+    debug: env.LOG_DEBUG === "true",
+  };
+}
+
+// The configured PHI fields plus the keys masked regardless of configuration
+export function redactionFields(options: LoggerOptions): Set<string> {
+  return new Set([...options.redactFields, ...alwaysRedacted]);
+}
+
+// Audit changes are keyed by path, e.g. "comments.12.body", so the last segment is matched too
+const isRedacted = (key: string, fields: Set<string>) => fields.has(key) || fields.has(key.slice(key.lastIndexOf(".") + 1));
+
+export function redact(value: unknown, fields: Set<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, fields));
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, nested]) => [
+        key,
+        isRedacted(key, fields) ? REDACTED : redact(nested, fields),
+      ]),
+    );
+  }
+  return value;
+}
+
+function write(level: "info" | "warn" | "error", message: string, fields: Record<string, unknown>) {
+  console.log(JSON.stringify({ time: new Date().toISOString(), level, message, ...fields }));
+}
+
+// One structured line per API request: method, path, status, duration, user and request id.
+// Response bodies are only included in debug mode, and then with PHI masked.
+export function requestLogger(options: LoggerOptions = loggerOptionsFromEnv()) {
+  const redactFields = redactionFields(options);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const start = Date.now();
+    const path = req.path;
+    const requestId = req.get("x-request-id") || randomUUID();
+    res.setHeader("X-Request-Id", requestId);
+
+    let capturedJsonResponse: unknown = undefined;
+    if (options.debug) {
+      const originalResJson = res.json;
+      res.json = function (bodyJson, ...args) {
+        capturedJsonResponse = bodyJson;
+        return originalResJson.apply(res, [bodyJson, ...args]);
+      };
+    }
+
+    res.on("finish", () => {
+      if (!path.startsWith("/api")) return;
+
+      const status = res.statusCode;
+      write(status >= 500 ? "error" : status >= 400 ? "warn" : "info", "request", {
+        requestId,
+        method: req.method,
+        path,
+        status,
+        durationMs: Date.now() - start,
+        userId: req.user?.id ?? null,
+        username: req.user?.username ?? null,
+        ...(options.debug && capturedJsonResponse !== undefined && {
+          body: redact(capturedJsonResponse, redactFields),
+        }),
+      });
+    });
+
+    next();
+  };
+}
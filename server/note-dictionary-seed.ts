@@ -0,0 +1,41 @@
+import type { InsertNoteDictionaryEntry } from "@shared/schema";
+
+// Starter shorthand and misspellings loaded into an empty note_dictionary table for every organization;
+// admins maintain it from there
+const entries: [phrase: string, replacement: string][] = [
+  ["dup", "duplicate"],
+  ["prev", "previous"],
+  ["claiim", "claim"],
+  ["suibmit", "submitted"],
+  ["submited", "submitted"],
+  ["recieved", "received"],
+  ["payed", "paid"],
+  ["approvel", "approval"],
+  ["authorizaton", "authorization"],
+  ["necesary", "necessary"],
+  ["seperately", "separately"],
+  ["seperete", "separate"],
+  ["w/", "with"],
+  ["pt", "patient"],
+  ["dx", "diagnosis"],
+  ["proc", "procedure"],
+  ["auth", "authorization"],
+  ["pre-auth", "pre-authorization"],
+  ["reimb", "reimbursement"],
+  ["coord", "coordination"],
+  ["benefts", "benefits"],
+  ["eligibilty", "eligibility"],
+  ["mcr", "Medicare"],
+  ["prim", "primary"],
+  ["biled", "billed"],
+  ["no void any claim", "do not void any claims"],
+  ["yes true dup", "confirmed true duplicate"],
+  ["yes true duplicate", "confirmed true duplicate"],
+  ["paid out", "paid in full"],
+];
+
+export const defaultNoteDictionary: InsertNoteDictionaryEntry[] = entries.map(([phrase, replacement]) => ({
+  organizationId: null,
+  phrase,
+  replacement,
+}));
@@ -0,0 +1,93 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import type { InsertReasonCode, ReasonCodeType } from "@shared/schema";
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, doubled quotes and newlines
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+// The published lists are named after what they contain, e.g. "carc.csv" or "Remittance Advice Remark Codes.csv"
+function typeFromFileName(fileName: string): ReasonCodeType | null {
+  if (/carc|adjustment/i.test(fileName)) return "carc";
+  if (/rarc|remark/i.test(fileName)) return "rarc";
+  return null;
+}
+
+function findColumn(header: string[], pattern: RegExp): number {
+  return header.findIndex((name) => pattern.test(name.trim()));
+}
+
+export function parseReasonCodeCsv(text: string, type: ReasonCodeType): InsertReasonCode[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const codeColumn = Math.max(findColumn(header, /code$/i), 0);
+  const descriptionColumn = findColumn(header, /description/i);
+  const startColumn = findColumn(header, /start|effective/i);
+  const stopColumn = findColumn(header, /stop|deactivat/i);
+  if (descriptionColumn < 0) {
+    throw new Error("Reason code CSV must have a Description column");
+  }
+
+  const cell = (row: string[], column: number) => (column < 0 ? "" : (row[column] ?? "").trim());
+  return rows
+    .map((row) => ({
+      type,
+      code: cell(row, codeColumn).toUpperCase(),
+      description: cell(row, descriptionColumn).replace(/\s+/g, " "),
+      startDate: cell(row, startColumn) || null,
+      stopDate: cell(row, stopColumn) || null,
+    }))
+    .filter((reasonCode) => reasonCode.code && reasonCode.description);
+}
+
+// Reads every CARC/RARC CSV in a directory; files whose names don't say which list they hold are skipped
+export async function readReasonCodeDirectory(dir: string): Promise<InsertReasonCode[]> {
+  const files = (await readdir(dir)).filter((file) => file.toLowerCase().endsWith(".csv")).sort();
+  // Keyed by type and code so a code listed twice is only imported once, last file wins
+  const reasonCodes = new Map<string, InsertReasonCode>();
+  for (const file of files) {
+    const type = typeFromFileName(file);
+    if (!type) continue;
+    for (const reasonCode of parseReasonCodeCsv(await readFile(path.join(dir, file), "utf8"), type)) {
+      reasonCodes.set(`${reasonCode.type}:${reasonCode.code}`, reasonCode);
+    }
+  }
+  return Array.from(reasonCodes.values());
+}
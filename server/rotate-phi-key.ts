@@ -0,0 +1,16 @@
+import { storage, DbStorage } from "./storage";
+import { log } from "./vite";
+
+// Re-encrypts stored PHI with the first key in PHI_ENCRYPTION_KEYS.
+// Keep the retired key listed until this has finished, then remove it.
+if (!(storage instanceof DbStorage)) {
+  console.error("DATABASE_URL must be set; in-memory storage is never encrypted");
+  process.exit(1);
+}
+
+const dbStorage = storage;
+(async () => {
+  const result = await dbStorage.rotateEncryptionKey();
+  log(`re-encrypted ${result.accounts} account(s), ${result.questionAnswers} question answer(s), ${result.comments} comment(s) and ${result.auditEvents} audit event(s)`, "phi-rotate");
+  process.exit(0);
+})();
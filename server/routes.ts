@@ -1,15 +1,223 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertPatientAccountSchema, updatePatientAccountSchema } from "@shared/schema";
+import { storage, MemStorage } from "./storage";
+import { setupAuth, requireAuth, requireRole, hashPassword, toPublicUser } from "./auth";
+import { diffRecord, recordAudit } from "./audit";
+import { defaultDenialCodes } from "./denial-code-seed";
+import { defaultNoteDictionary } from "./note-dictionary-seed";
+import { readReasonCodeDirectory } from "./reason-codes";
+import { accountStatusSchema, auditQuerySchema, insertCallSessionSchema, insertClaimLineSchema, insertCommentSchema, insertCommentTemplateSchema, insertNoteDictionaryEntrySchema, updateNoteDictionaryEntrySchema, insertOrganizationSchema, updateCommentTemplateSchema, insertDenialCodeSchema, insertDenialCodeOverrideSchema, updateDenialCodeOverrideSchema, insertPatientAccountSchema, insertQuestionAnswerSchema, reasonCodeQuerySchema, updateDenialCodeSchema, updateClaimLineSchema, insertUserSchema, updatePatientAccountSchema, updateUserSchema, type PatientAccount } from "@shared/schema";
+import { hasRole } from "@shared/roles";
+import { claimBalanceError } from "@shared/money";
+import { denialCodeParts } from "@shared/group-codes";
+import { findDenialGuidance, resolveDenialGuidance } from "@shared/denial-guidance";
+import { evaluateFieldRules } from "@shared/field-rules";
+import { completionBlockers } from "@shared/account-status";
 import { z } from "zod";
 
+type Access = "read" | "write";
+
+// Resolve a call session the signed-in user may access: callers only work their own
+// sessions, while supervisors can read (but not change) everyone's
+async function getAccessibleSession(req: Request, sessionId: string, access: Access) {
+  const session = await storage.getCallSession(sessionId);
+  if (!session) return undefined;
+  if (session.userId === req.user!.id) return session;
+  return access === "read" && hasRole(req.user!.role, "supervisor") ? session : undefined;
+}
+
+// Resolve a patient account whose call session the signed-in user may access
+async function getAccessibleAccount(req: Request, id: number, access: Access) {
+  const account = await storage.getPatientAccount(id);
+  if (!account) return undefined;
+  return (await getAccessibleSession(req, account.sessionId, access)) ? account : undefined;
+}
+
+// The catalog guidance for an account's denial code, with its payer's override applied
+async function getAccountGuidance(account: PatientAccount) {
+  const { groupCode, reasonCode } = denialCodeParts(account);
+  const entry = findDenialGuidance(await storage.getDenialCodes(), groupCode, reasonCode);
+  if (!entry) return undefined;
+  return resolveDenialGuidance(entry, await storage.findDenialCodeOverride(entry.id, account.insuranceName));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  setupAuth(app);
+  await storage.seedDenialCodes(defaultDenialCodes);
+  await storage.seedNoteDictionary(defaultNoteDictionary);
+  // A database is loaded once with `npm run codes:import`; in-memory storage starts empty every time
+  if (storage instanceof MemStorage && process.env.REASON_CODE_DIR) {
+    await storage.upsertReasonCodes(await readReasonCodeDirectory(process.env.REASON_CODE_DIR));
+  }
+
+  app.use("/api/sessions", requireAuth);
+  app.use("/api/accounts", requireAuth);
+
+  // List users
+  app.get("/api/users", requireRole("admin"), async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  // Create a user with any role
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+      const user = await storage.createUser({
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  // Change a user's role or reset their password
+  app.patch("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateUserSchema.parse(req.body);
+      if (id === req.user!.id && validatedData.role && validatedData.role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+      const user = await storage.updateUser(id, {
+        ...validatedData,
+        ...(validatedData.password && { password: await hashPassword(validatedData.password) }),
+      });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // List call sessions with account counts, newest first. Callers see their own;
+  // supervisors see every caller's
+  app.get("/api/sessions", async (req, res) => {
+    try {
+      const ownerId = hasRole(req.user!.role, "supervisor") ? undefined : req.user!.id;
+      const sessions = await storage.getCallSessions(ownerId);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch call sessions" });
+    }
+  });
+
+  // Get specific call session
+  app.get("/api/sessions/:id", async (req, res) => {
+    try {
+      const session = await getAccessibleSession(req, req.params.id, "read");
+      if (!session) {
+        return res.status(404).json({ message: "Call session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch call session" });
+    }
+  });
+
+  // Start a new call session
+  app.post("/api/sessions", async (req, res) => {
+    try {
+      const validatedData = insertCallSessionSchema.parse(req.body);
+      if (validatedData.organizationId && !(await storage.getOrganization(validatedData.organizationId))) {
+        return res.status(400).json({ message: "Organization not found" });
+      }
+      const session = await storage.createCallSession(validatedData, req.user!.id);
+      res.status(201).json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create call session" });
+    }
+  });
+
+  // End a call session
+  app.post("/api/sessions/:id/close", async (req, res) => {
+    try {
+      const existing = await getAccessibleSession(req, req.params.id, "write");
+      if (!existing) {
+        return res.status(404).json({ message: "Call session not found" });
+      }
+      if (existing.status === "closed") {
+        return res.status(409).json({ message: "Call session is already closed" });
+      }
+      const session = await storage.closeCallSession(req.params.id);
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to close call session" });
+    }
+  });
+
+  // Resume a previously ended call session
+  app.post("/api/sessions/:id/reopen", async (req, res) => {
+    try {
+      const existing = await getAccessibleSession(req, req.params.id, "write");
+      if (!existing) {
+        return res.status(404).json({ message: "Call session not found" });
+      }
+      const session = await storage.reopenCallSession(req.params.id);
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reopen call session" });
+    }
+  });
+
+  // Record a CSV export of a session's accounts; the file itself is built in the browser
+  app.post("/api/sessions/:id/export", async (req, res) => {
+    try {
+      const session = await getAccessibleSession(req, req.params.id, "read");
+      if (!session) {
+        return res.status(404).json({ message: "Call session not found" });
+      }
+      const accounts = await storage.getPatientAccountsBySession(session.id);
+      await recordAudit(req, "export", accounts);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record session export" });
+    }
+  });
+
+  // Query the PHI audit trail
+  app.get("/api/audit", requireRole("supervisor"), async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const events = await storage.getAuditEvents(query);
+      res.json(events);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch audit events" });
+    }
+  });
+
   // Get patient accounts for a session
   app.get("/api/accounts/:sessionId", async (req, res) => {
     try {
       const sessionId = req.params.sessionId;
+      if (!(await getAccessibleSession(req, sessionId, "read"))) {
+        return res.status(404).json({ message: "Call session not found" });
+      }
       const accounts = await storage.getPatientAccountsBySession(sessionId);
+      await recordAudit(req, "read", accounts);
       res.json(accounts);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch patient accounts" });
@@ -20,10 +228,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/accounts/detail/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const account = await storage.getPatientAccount(id);
+      const account = await getAccessibleAccount(req, id, "read");
       if (!account) {
         return res.status(404).json({ message: "Patient account not found" });
       }
+      await recordAudit(req, "read", [account]);
       res.json(account);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch patient account" });
@@ -34,7 +243,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/accounts", async (req, res) => {
     try {
       const validatedData = insertPatientAccountSchema.parse(req.body);
+      const session = await getAccessibleSession(req, validatedData.sessionId, "write");
+      if (!session) {
+        return res.status(404).json({ message: "Call session not found" });
+      }
+      if (session.status === "closed") {
+        return res.status(409).json({ message: "Call session is closed" });
+      }
       const account = await storage.createPatientAccount(validatedData);
+      await recordAudit(req, "create", [account], diffRecord({}, account));
       res.status(201).json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -49,10 +266,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const validatedData = updatePatientAccountSchema.parse(req.body);
+      const existing = await getAccessibleAccount(req, id, "write");
+      if (!existing) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const merged = { ...existing, ...validatedData };
+      const balanceError = claimBalanceError(merged);
+      if (balanceError) {
+        return res.status(400).json({ message: balanceError });
+      }
+      // Date comparisons make the data inconsistent as soon as they fail; missing required
+      // fields only matter once the account is completed. Only a date this request sets can fail it,
+      // so an account that already breaks a rule (say, after its denial code changed) stays editable.
+      const guidance = await getAccountGuidance(merged);
+      const ruleFailures = evaluateFieldRules(guidance?.fieldRules ?? [], merged)
+        .filter((result) => result.rule.type !== "required" && !result.passed &&
+          (result.rule.field in validatedData || result.rule.other in validatedData));
+      if (ruleFailures.length > 0) {
+        return res.status(400).json({ message: ruleFailures.map((result) => result.reason).join("; ") });
+      }
+      const blockers = existing.status === "completed" ? completionBlockers(merged, guidance) : [];
+      if (blockers.length > 0) {
+        return res.status(409).json({ message: `Completed accounts must keep their required fields: ${blockers.join("; ")}` });
+      }
       const account = await storage.updatePatientAccount(id, validatedData);
       if (!account) {
         return res.status(404).json({ message: "Patient account not found" });
       }
+      const changes = diffRecord(existing, account);
+      if (Object.keys(changes).length > 0) {
+        await recordAudit(req, "update", [account], changes);
+      }
       res.json(account);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -62,20 +306,598 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move an account between open, in progress, completed and needs follow-up
+  app.put("/api/accounts/:id/status", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status } = accountStatusSchema.parse(req.body);
+      const existing = await getAccessibleAccount(req, id, "write");
+      if (!existing) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      if (status === "completed") {
+        const blockers = completionBlockers(existing, await getAccountGuidance(existing));
+        if (blockers.length > 0) {
+          return res.status(409).json({ message: `Account can't be completed yet: ${blockers.join("; ")}`, blockers });
+        }
+      }
+      const account = await storage.setPatientAccountStatus(id, status);
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const changes = diffRecord(existing, account);
+      if (Object.keys(changes).length > 0) {
+        await recordAudit(req, "update", [account], changes);
+      }
+      res.json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update account status" });
+    }
+  });
+
   // Delete patient account
   app.delete("/api/accounts/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const existing = await getAccessibleAccount(req, id, "write");
+      if (!existing) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
       const deleted = await storage.deletePatientAccount(id);
       if (!deleted) {
         return res.status(404).json({ message: "Patient account not found" });
       }
+      await recordAudit(req, "delete", [existing], diffRecord(existing, {}));
       res.status(204).send();
     } catch (error) {
       res.status(500).json({ message: "Failed to delete patient account" });
     }
   });
 
+  app.use("/api/claim-lines", requireAuth);
+
+  // Get the claim lines of a patient account
+  app.get("/api/accounts/:id/claim-lines", async (req, res) => {
+    try {
+      const account = await getAccessibleAccount(req, parseInt(req.params.id), "read");
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const lines = await storage.getClaimLines(account.id);
+      await recordAudit(req, "read", [account]);
+      res.json(lines);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch claim lines" });
+    }
+  });
+
+  // Add a claim line to a patient account
+  app.post("/api/accounts/:id/claim-lines", async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.id);
+      const validatedData = insertClaimLineSchema.parse({ ...req.body, accountId });
+      const account = await getAccessibleAccount(req, accountId, "write");
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const line = await storage.createClaimLine(validatedData);
+      await recordAudit(req, "update", [account], diffRecord({}, line, `claimLines.${line.id}.`));
+      res.status(201).json(line);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create claim line" });
+    }
+  });
+
+  // Update a claim line
+  app.patch("/api/claim-lines/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateClaimLineSchema.parse(req.body);
+      const existing = await storage.getClaimLine(id);
+      const account = existing && await getAccessibleAccount(req, existing.accountId, "write");
+      if (!existing || !account) {
+        return res.status(404).json({ message: "Claim line not found" });
+      }
+      const line = await storage.updateClaimLine(id, validatedData);
+      if (!line) {
+        return res.status(404).json({ message: "Claim line not found" });
+      }
+      const changes = diffRecord(existing, line, `claimLines.${line.id}.`);
+      if (Object.keys(changes).length > 0) {
+        await recordAudit(req, "update", [account], changes);
+      }
+      res.json(line);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update claim line" });
+    }
+  });
+
+  // Delete a claim line
+  app.delete("/api/claim-lines/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getClaimLine(id);
+      const account = existing && await getAccessibleAccount(req, existing.accountId, "write");
+      if (!existing || !account) {
+        return res.status(404).json({ message: "Claim line not found" });
+      }
+      await storage.deleteClaimLine(id);
+      await recordAudit(req, "update", [account], diffRecord(existing, {}, `claimLines.${existing.id}.`));
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete claim line" });
+    }
+  });
+
+  // Get the rep's answers to guidance questions on a patient account
+  app.get("/api/accounts/:id/answers", async (req, res) => {
+    try {
+      const account = await getAccessibleAccount(req, parseInt(req.params.id), "read");
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const answers = await storage.getQuestionAnswers(account.id);
+      await recordAudit(req, "read", [account]);
+      res.json(answers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch question answers" });
+    }
+  });
+
+  // Record the answer to one question; an empty value clears it
+  app.put("/api/accounts/:id/answers", async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.id);
+      const validatedData = insertQuestionAnswerSchema.parse({ ...req.body, accountId });
+      const account = await getAccessibleAccount(req, accountId, "write");
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const existing = await storage.getQuestionAnswer(accountId, validatedData.question);
+
+      if (!validatedData.value) {
+        if (existing) {
+          await storage.deleteQuestionAnswer(accountId, validatedData.question);
+          await recordAudit(req, "update", [account], diffRecord(existing, {}, `questionAnswers.${existing.id}.`));
+        }
+        return res.status(204).send();
+      }
+
+      const answer = await storage.upsertQuestionAnswer(validatedData);
+      const changes = diffRecord(existing ?? {}, answer, `questionAnswers.${answer.id}.`);
+      if (Object.keys(changes).length > 0) {
+        await recordAudit(req, "update", [account], changes);
+      }
+      res.json(answer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save question answer" });
+    }
+  });
+
+  // Get the comment history of a patient account
+  app.get("/api/accounts/:id/comments", async (req, res) => {
+    try {
+      const account = await getAccessibleAccount(req, parseInt(req.params.id), "read");
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      const accountComments = await storage.getComments(account.id);
+      await recordAudit(req, "read", [account]);
+      res.json(accountComments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  // Save a generated or hand-edited comment; `finalized` marks it as the one pasted into the billing system
+  app.post("/api/accounts/:id/comments", async (req, res) => {
+    try {
+      const accountId = parseInt(req.params.id);
+      const validatedData = insertCommentSchema.parse(req.body);
+      const account = await getAccessibleAccount(req, accountId, "write");
+      if (!account) {
+        return res.status(404).json({ message: "Patient account not found" });
+      }
+      if (validatedData.templateId && !(await storage.getCommentTemplate(validatedData.templateId))) {
+        return res.status(400).json({ message: "Comment template not found" });
+      }
+      if (validatedData.generatedFromId) {
+        const origin = await storage.getComment(validatedData.generatedFromId);
+        if (!origin || origin.accountId !== accountId || origin.source !== "generated") {
+          return res.status(400).json({ message: "Generated comment not found" });
+        }
+      }
+      const comment = await storage.createComment(accountId, validatedData, req.user!.id);
+      await recordAudit(req, "update", [account], diffRecord({}, comment, `comments.${comment.id}.`));
+      res.status(201).json(comment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save comment" });
+    }
+  });
+
+  // Mark a saved comment as the one pasted into the billing system
+  app.post("/api/accounts/:id/comments/:commentId/finalize", async (req, res) => {
+    try {
+      const account = await getAccessibleAccount(req, parseInt(req.params.id), "write");
+      const existing = account && await storage.getComment(parseInt(req.params.commentId));
+      if (!account || !existing || existing.accountId !== account.id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      const comment = await storage.finalizeComment(existing.id);
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      await recordAudit(req, "update", [account], diffRecord(existing, comment, `comments.${comment.id}.`));
+      res.json(comment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to finalize comment" });
+    }
+  });
+
+  app.use("/api/denial-codes", requireAuth);
+
+  // List the denial code catalog
+  app.get("/api/denial-codes", async (_req, res) => {
+    try {
+      const denialCodes = await storage.getDenialCodes();
+      res.json(denialCodes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch denial codes" });
+    }
+  });
+
+  // Add a denial code (admin only)
+  app.post("/api/denial-codes", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertDenialCodeSchema.parse(req.body);
+      if (await storage.findDenialCode(validatedData.groupCode ?? null, validatedData.code)) {
+        return res.status(409).json({ message: "Denial code already exists" });
+      }
+      const denialCode = await storage.createDenialCode(validatedData);
+      res.status(201).json(denialCode);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create denial code" });
+    }
+  });
+
+  // Update a denial code (admin only)
+  app.patch("/api/denial-codes/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateDenialCodeSchema.parse(req.body);
+      const existing = await storage.getDenialCode(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Denial code not found" });
+      }
+      const duplicate = await storage.findDenialCode(
+        validatedData.groupCode !== undefined ? validatedData.groupCode : existing.groupCode,
+        validatedData.code ?? existing.code,
+      );
+      if (duplicate && duplicate.id !== id) {
+        return res.status(409).json({ message: "Denial code already exists" });
+      }
+      const denialCode = await storage.updateDenialCode(id, validatedData);
+      if (!denialCode) {
+        return res.status(404).json({ message: "Denial code not found" });
+      }
+      res.json(denialCode);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update denial code" });
+    }
+  });
+
+  // Delete a denial code (admin only). Accounts keep the code text they were documented with.
+  app.delete("/api/denial-codes/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDenialCode(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Denial code not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete denial code" });
+    }
+  });
+
+  app.use("/api/denial-code-overrides", requireAuth);
+
+  // List every payer override; the client layers them over the catalog for the current payer
+  app.get("/api/denial-code-overrides", async (_req, res) => {
+    try {
+      const overrides = await storage.getDenialCodeOverrides();
+      res.json(overrides);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch denial code overrides" });
+    }
+  });
+
+  // Add a payer override to a denial code (admin only)
+  app.post("/api/denial-code-overrides", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertDenialCodeOverrideSchema.parse(req.body);
+      if (!(await storage.getDenialCode(validatedData.denialCodeId))) {
+        return res.status(404).json({ message: "Denial code not found" });
+      }
+      if (await storage.findDenialCodeOverride(validatedData.denialCodeId, validatedData.payer)) {
+        return res.status(409).json({ message: "This payer already has an override for the code" });
+      }
+      const override = await storage.createDenialCodeOverride(validatedData);
+      res.status(201).json(override);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create denial code override" });
+    }
+  });
+
+  // Update a payer override (admin only)
+  app.patch("/api/denial-code-overrides/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateDenialCodeOverrideSchema.parse(req.body);
+      const override = await storage.updateDenialCodeOverride(parseInt(req.params.id), validatedData);
+      if (!override) {
+        return res.status(404).json({ message: "Denial code override not found" });
+      }
+      res.json(override);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update denial code override" });
+    }
+  });
+
+  // Delete a payer override (admin only)
+  app.delete("/api/denial-code-overrides/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDenialCodeOverride(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Denial code override not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete denial code override" });
+    }
+  });
+
+  app.use("/api/organizations", requireAuth);
+
+  // List client organizations
+  app.get("/api/organizations", async (_req, res) => {
+    try {
+      const organizations = await storage.getOrganizations();
+      res.json(organizations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch organizations" });
+    }
+  });
+
+  // Add a client organization (admin only)
+  app.post("/api/organizations", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertOrganizationSchema.parse(req.body);
+      if (await storage.findOrganizationByName(validatedData.name)) {
+        return res.status(409).json({ message: "Organization already exists" });
+      }
+      const organization = await storage.createOrganization(validatedData);
+      res.status(201).json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create organization" });
+    }
+  });
+
+  // Rename a client organization (admin only)
+  app.patch("/api/organizations/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertOrganizationSchema.parse(req.body);
+      const duplicate = await storage.findOrganizationByName(validatedData.name);
+      if (duplicate && duplicate.id !== id) {
+        return res.status(409).json({ message: "Organization already exists" });
+      }
+      const organization = await storage.updateOrganization(id, validatedData);
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      res.json(organization);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update organization" });
+    }
+  });
+
+  // Delete a client organization and its templates (admin only)
+  app.delete("/api/organizations/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteOrganization(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete organization" });
+    }
+  });
+
+  app.use("/api/comment-templates", requireAuth);
+
+  // List every comment template; the client picks the most specific one for each account
+  app.get("/api/comment-templates", async (_req, res) => {
+    try {
+      const templates = await storage.getCommentTemplates();
+      res.json(templates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch comment templates" });
+    }
+  });
+
+  // Add a comment template (admin only)
+  app.post("/api/comment-templates", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertCommentTemplateSchema.parse(req.body);
+      if (validatedData.organizationId && !(await storage.getOrganization(validatedData.organizationId))) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (validatedData.denialCodeId && !(await storage.getDenialCode(validatedData.denialCodeId))) {
+        return res.status(404).json({ message: "Denial code not found" });
+      }
+      if (await storage.findCommentTemplate(validatedData.organizationId, validatedData.denialCodeId)) {
+        return res.status(409).json({ message: "A template already exists for this organization and code" });
+      }
+      const template = await storage.createCommentTemplate(validatedData);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create comment template" });
+    }
+  });
+
+  // Update a comment template's wording (admin only)
+  app.patch("/api/comment-templates/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = updateCommentTemplateSchema.parse(req.body);
+      const template = await storage.updateCommentTemplate(parseInt(req.params.id), validatedData);
+      if (!template) {
+        return res.status(404).json({ message: "Comment template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update comment template" });
+    }
+  });
+
+  // Delete a comment template; accounts fall back to the next most specific one (admin only)
+  app.delete("/api/comment-templates/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCommentTemplate(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Comment template not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment template" });
+    }
+  });
+
+  app.use("/api/note-dictionary", requireAuth);
+
+  // List every note dictionary entry; the client merges an organization's entries over the shared ones
+  app.get("/api/note-dictionary", async (_req, res) => {
+    try {
+      const entries = await storage.getNoteDictionary();
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch note dictionary" });
+    }
+  });
+
+  // Add a note dictionary entry (admin only)
+  app.post("/api/note-dictionary", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertNoteDictionaryEntrySchema.parse(req.body);
+      if (validatedData.organizationId && !(await storage.getOrganization(validatedData.organizationId))) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      if (await storage.findNoteDictionaryEntry(validatedData.organizationId, validatedData.phrase)) {
+        return res.status(409).json({ message: "This phrase is already in the dictionary" });
+      }
+      const entry = await storage.createNoteDictionaryEntry(validatedData);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create note dictionary entry" });
+    }
+  });
+
+  // Update a note dictionary entry (admin only)
+  app.patch("/api/note-dictionary/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = updateNoteDictionaryEntrySchema.parse(req.body);
+      const existing = await storage.getNoteDictionaryEntry(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Note dictionary entry not found" });
+      }
+      if (validatedData.phrase && validatedData.phrase !== existing.phrase &&
+          await storage.findNoteDictionaryEntry(existing.organizationId, validatedData.phrase)) {
+        return res.status(409).json({ message: "This phrase is already in the dictionary" });
+      }
+      const entry = await storage.updateNoteDictionaryEntry(id, validatedData);
+      if (!entry) {
+        return res.status(404).json({ message: "Note dictionary entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update note dictionary entry" });
+    }
+  });
+
+  // Delete a note dictionary entry (admin only)
+  app.delete("/api/note-dictionary/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteNoteDictionaryEntry(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Note dictionary entry not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete note dictionary entry" });
+    }
+  });
+
+  app.use("/api/reason-codes", requireAuth);
+
+  // Search the CARC/RARC reference catalog by code prefix or description text
+  app.get("/api/reason-codes", async (req, res) => {
+    try {
+      const query = reasonCodeQuerySchema.parse(req.query);
+      const reasonCodes = await storage.searchReasonCodes(query);
+      res.json(reasonCodes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search reason codes" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
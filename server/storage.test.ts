@@ -0,0 +1,114 @@
+import { randomBytes } from "crypto";
+import { createRequire } from "module";
+import { afterAll, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { eq } from "drizzle-orm";
+import session from "express-session";
+import * as schema from "@shared/schema";
+import type { Database } from "./db";
+import { FieldCipher } from "./encryption";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+// drizzle-kit's ESM build can't load under vitest, so its CommonJS build is required directly
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// PGlite is Postgres compiled to WASM, so DbStorage runs its real queries in-process. Tables come
+// from the same schema diff `npm run db:push` applies.
+async function createTestDb(): Promise<{ db: Database; client: PGlite }> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { db: drizzle({ client, schema }), client };
+}
+
+// Sessions aren't under test, so they stay in memory rather than in a Postgres session table
+function createDbStorage(db: Database): DbStorage {
+  return new DbStorage(db, new FieldCipher([{ id: "test", key: randomBytes(32) }]), new session.MemoryStore());
+}
+
+const testDb = createTestDb();
+
+afterAll(async () => {
+  const { client } = await testDb;
+  await client.close();
+});
+
+const storages: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DbStorage", async () => createDbStorage((await testDb).db)],
+];
+
+describe.each(storages)("%s", (name, createStorage) => {
+  it("creates, reads, updates and deletes a patient account", async () => {
+    const storage = await createStorage();
+    const user = await storage.createUser({ username: `caller-${name}`, password: "not-a-real-hash" });
+    const session = await storage.createCallSession({ payer: "aetna" }, user.id);
+
+    const created = await storage.createPatientAccount({
+      patientName: "Jane Doe",
+      accountNumber: "A-1001",
+      insuranceName: "aetna",
+      claimNumber: "2025ABC1234",
+      billedAmount: 125000,
+      sessionId: session.id,
+    });
+    expect(created).toMatchObject({
+      patientName: "Jane Doe",
+      accountNumber: "A-1001",
+      claimNumber: "2025ABC1234",
+      billedAmount: 125000,
+      repName: null,
+      remarkCodes: [],
+      questionPath: [],
+      status: "open",
+    });
+    expect(await storage.getPatientAccount(created.id)).toEqual(created);
+    expect(await storage.getPatientAccountsBySession(session.id)).toEqual([created]);
+
+    const updated = await storage.updatePatientAccount(created.id, { repName: "Dana", paidAmount: 8000 });
+    expect(updated).toMatchObject({ patientName: "Jane Doe", repName: "Dana", paidAmount: 8000 });
+    expect(await storage.getPatientAccount(created.id)).toEqual(updated);
+
+    expect(await storage.deletePatientAccount(created.id)).toBe(true);
+    expect(await storage.getPatientAccount(created.id)).toBeUndefined();
+    expect(await storage.deletePatientAccount(created.id)).toBe(false);
+  });
+});
+
+describe("DbStorage encryption", () => {
+  it("stores PHI columns as ciphertext", async () => {
+    const { db } = await testDb;
+    const storage = createDbStorage(db);
+    const user = await storage.createUser({ username: "caller-encryption", password: "not-a-real-hash" });
+    const session = await storage.createCallSession({}, user.id);
+    const account = await storage.createPatientAccount({
+      patientName: "Jane Doe",
+      accountNumber: "A-1002",
+      insuranceName: "aetna",
+      sessionId: session.id,
+    });
+
+    const [row] = await db.select().from(schema.patientAccounts).where(eq(schema.patientAccounts.id, account.id));
+    expect(row.patientName).toMatch(/^enc:v1:test:/);
+    expect(row.accountNumber).toMatch(/^enc:v1:test:/);
+    expect(row.insuranceName).toBe("aetna");
+  });
+});
+
+describe("DbStorage unique constraints", () => {
+  // A null organization or group code is a value of its own here, so a second row with it is a duplicate
+  const duplicates: [string, (storage: IStorage) => Promise<unknown>][] = [
+    ["denial code without a group code", (storage) => storage.createDenialCode({ groupCode: null, code: "16", description: "Missing information" })],
+    ["comment template for all organizations and every code", (storage) => storage.createCommentTemplate({ organizationId: null, denialCodeId: null, body: "{{notes}}" })],
+    ["note dictionary entry for all organizations", (storage) => storage.createNoteDictionaryEntry({ organizationId: null, phrase: "pt", replacement: "patient" })],
+  ];
+
+  it.each(duplicates)("rejects a second %s", async (_name, create) => {
+    const storage = createDbStorage((await testDb).db);
+    await create(storage);
+    await expect(create(storage)).rejects.toThrow(/duplicate key/);
+  });
+});
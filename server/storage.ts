@@ -1,29 +1,173 @@
-import { patientAccounts, users, type User, type InsertUser, type PatientAccount, type InsertPatientAccount, type UpdatePatientAccount } from "@shared/schema";
+import { auditEvents, callSessions, claimLines, comments, commentTemplates, noteDictionary, denialCodeOverrides, denialCodes, organizations, patientAccounts, questionAnswers, reasonCodes, users, type Organization, type InsertOrganization, type CommentTemplate, type InsertCommentTemplate, type UpdateCommentTemplate, type AccountComment, type AccountCommentEntry, type InsertComment, type NoteDictionaryEntry, type InsertNoteDictionaryEntry, type UpdateNoteDictionaryEntry, type QuestionAnswer, type InsertQuestionAnswer, type ReasonCode, type InsertReasonCode, type ReasonCodeQuery, type DenialCode, type DenialCodeOverride, type InsertDenialCodeOverride, type UpdateDenialCodeOverride, type GroupCode, type InsertDenialCode, type UpdateDenialCode, type ClaimLine, type InsertClaimLine, type UpdateClaimLine, type AuditChanges, type AuditEvent, type InsertAuditEvent, type AuditQuery, type User, type InsertUser, type UpdateUser, type CallSession, type CallSessionSummary, type InsertCallSession, type PatientAccount, type InsertPatientAccount, type UpdatePatientAccount, type AccountStatus } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gte, ilike, isNull, lte, or, getTableColumns, sql } from "drizzle-orm";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+import { cipherFromEnv, type FieldCipher } from "./encryption";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: UpdateUser): Promise<User | undefined>;
+
+  // Call session methods
+  // Pass a userId to list only that user's sessions
+  getCallSessions(userId?: number): Promise<CallSessionSummary[]>;
+  getCallSession(id: string): Promise<CallSession | undefined>;
+  createCallSession(session: InsertCallSession, userId: number): Promise<CallSession>;
+  closeCallSession(id: string): Promise<CallSession | undefined>;
+  reopenCallSession(id: string): Promise<CallSession | undefined>;
   
   // Patient account methods
   getPatientAccountsBySession(sessionId: string): Promise<PatientAccount[]>;
   getPatientAccount(id: number): Promise<PatientAccount | undefined>;
   createPatientAccount(account: InsertPatientAccount): Promise<PatientAccount>;
   updatePatientAccount(id: number, updates: UpdatePatientAccount): Promise<PatientAccount | undefined>;
+  setPatientAccountStatus(id: number, status: AccountStatus): Promise<PatientAccount | undefined>;
   deletePatientAccount(id: number): Promise<boolean>;
+
+  // Claim line methods
+  getClaimLines(accountId: number): Promise<ClaimLine[]>;
+  getClaimLine(id: number): Promise<ClaimLine | undefined>;
+  createClaimLine(line: InsertClaimLine): Promise<ClaimLine>;
+  updateClaimLine(id: number, updates: UpdateClaimLine): Promise<ClaimLine | undefined>;
+  deleteClaimLine(id: number): Promise<boolean>;
+
+  // Question answer methods; an account has at most one answer per question
+  getQuestionAnswers(accountId: number): Promise<QuestionAnswer[]>;
+  getQuestionAnswer(accountId: number, question: string): Promise<QuestionAnswer | undefined>;
+  upsertQuestionAnswer(answer: InsertQuestionAnswer): Promise<QuestionAnswer>;
+  deleteQuestionAnswer(accountId: number, question: string): Promise<boolean>;
+
+  // Denial code catalog methods
+  getDenialCodes(): Promise<DenialCode[]>;
+  getDenialCode(id: number): Promise<DenialCode | undefined>;
+  // A null groupCode finds the entry written for any group
+  findDenialCode(groupCode: GroupCode | null, code: string): Promise<DenialCode | undefined>;
+  createDenialCode(denialCode: InsertDenialCode): Promise<DenialCode>;
+  updateDenialCode(id: number, updates: UpdateDenialCode): Promise<DenialCode | undefined>;
+  deleteDenialCode(id: number): Promise<boolean>;
+  // Loads the starter catalog only when no codes exist yet, so admin deletions stick
+  seedDenialCodes(defaults: InsertDenialCode[]): Promise<void>;
+
+  // Payer override methods
+  getDenialCodeOverrides(): Promise<DenialCodeOverride[]>;
+  getDenialCodeOverride(id: number): Promise<DenialCodeOverride | undefined>;
+  findDenialCodeOverride(denialCodeId: number, payer: string): Promise<DenialCodeOverride | undefined>;
+  createDenialCodeOverride(override: InsertDenialCodeOverride): Promise<DenialCodeOverride>;
+  updateDenialCodeOverride(id: number, updates: UpdateDenialCodeOverride): Promise<DenialCodeOverride | undefined>;
+  deleteDenialCodeOverride(id: number): Promise<boolean>;
+
+  // Client organization methods
+  getOrganizations(): Promise<Organization[]>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  findOrganizationByName(name: string): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: number, updates: InsertOrganization): Promise<Organization | undefined>;
+  // Sessions keep their accounts but lose the link; the organization's templates and dictionary go with it
+  deleteOrganization(id: number): Promise<boolean>;
+
+  // Comment template methods; at most one template per organization (or none) and code (or none)
+  getCommentTemplates(): Promise<CommentTemplate[]>;
+  getCommentTemplate(id: number): Promise<CommentTemplate | undefined>;
+  findCommentTemplate(organizationId: number | null, denialCodeId: number | null): Promise<CommentTemplate | undefined>;
+  createCommentTemplate(template: InsertCommentTemplate): Promise<CommentTemplate>;
+  updateCommentTemplate(id: number, updates: UpdateCommentTemplate): Promise<CommentTemplate | undefined>;
+  // Comments rendered from the template keep their text but lose the link
+  deleteCommentTemplate(id: number): Promise<boolean>;
+
+  // Note dictionary methods; phrases are unique per organization (or none)
+  getNoteDictionary(): Promise<NoteDictionaryEntry[]>;
+  getNoteDictionaryEntry(id: number): Promise<NoteDictionaryEntry | undefined>;
+  findNoteDictionaryEntry(organizationId: number | null, phrase: string): Promise<NoteDictionaryEntry | undefined>;
+  createNoteDictionaryEntry(entry: InsertNoteDictionaryEntry): Promise<NoteDictionaryEntry>;
+  updateNoteDictionaryEntry(id: number, updates: UpdateNoteDictionaryEntry): Promise<NoteDictionaryEntry | undefined>;
+  deleteNoteDictionaryEntry(id: number): Promise<boolean>;
+  // Loads the starter dictionary when the table is empty
+  seedNoteDictionary(defaults: InsertNoteDictionaryEntry[]): Promise<void>;
+
+  // Account comment history, oldest first
+  getComments(accountId: number): Promise<AccountCommentEntry[]>;
+  getComment(id: number): Promise<AccountComment | undefined>;
+  createComment(accountId: number, comment: InsertComment, authorId: number): Promise<AccountComment>;
+  finalizeComment(id: number): Promise<AccountComment | undefined>;
+
+  // CARC/RARC reference catalog methods
+  searchReasonCodes(query: ReasonCodeQuery): Promise<ReasonCode[]>;
+  // Inserts new codes and refreshes the wording and dates of ones already loaded
+  upsertReasonCodes(codes: InsertReasonCode[]): Promise<void>;
+
+  // Audit trail methods (append-only; only rotateEncryptionKey rewrites rows, and only their ciphertext)
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(query: AuditQuery): Promise<AuditEvent[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private callSessions: Map<string, CallSession>;
   private patientAccounts: Map<number, PatientAccount>;
+  private claimLines: Map<number, ClaimLine>;
+  private questionAnswers: Map<number, QuestionAnswer>;
+  private denialCodes: Map<number, DenialCode>;
+  private denialCodeOverrides: Map<number, DenialCodeOverride>;
+  private organizations: Map<number, Organization>;
+  private commentTemplates: Map<number, CommentTemplate>;
+  private comments: Map<number, AccountComment>;
+  private noteDictionary: Map<number, NoteDictionaryEntry>;
+  private reasonCodes: Map<string, ReasonCode>;
+  private auditEvents: AuditEvent[];
   private currentUserId: number;
   private currentAccountId: number;
+  private currentClaimLineId: number;
+  private currentQuestionAnswerId: number;
+  private currentDenialCodeId: number;
+  private currentDenialCodeOverrideId: number;
+  private currentOrganizationId: number;
+  private currentCommentTemplateId: number;
+  private currentCommentId: number;
+  private currentNoteDictionaryEntryId: number;
+  private currentReasonCodeId: number;
+  private currentAuditEventId: number;
+  sessionStore: session.Store;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     this.users = new Map();
+    this.callSessions = new Map();
     this.patientAccounts = new Map();
+    this.claimLines = new Map();
+    this.questionAnswers = new Map();
+    this.denialCodes = new Map();
+    this.denialCodeOverrides = new Map();
+    this.organizations = new Map();
+    this.commentTemplates = new Map();
+    this.comments = new Map();
+    this.noteDictionary = new Map();
+    this.reasonCodes = new Map();
+    this.auditEvents = [];
     this.currentUserId = 1;
     this.currentAccountId = 1;
+    this.currentClaimLineId = 1;
+    this.currentQuestionAnswerId = 1;
+    this.currentDenialCodeId = 1;
+    this.currentDenialCodeOverrideId = 1;
+    this.currentOrganizationId = 1;
+    this.currentCommentTemplateId = 1;
+    this.currentCommentId = 1;
+    this.currentNoteDictionaryEntryId = 1;
+    this.currentReasonCodeId = 1;
+    this.currentAuditEventId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -36,13 +180,80 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).sort((a, b) => a.username.localeCompare(b.username));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { role: "caller", ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getCallSessions(userId?: number): Promise<CallSessionSummary[]> {
+    const accounts = Array.from(this.patientAccounts.values());
+    return Array.from(this.callSessions.values())
+      .filter((session) => userId === undefined || session.userId === userId)
+      .sort((a, b) => (b.startedAt?.getTime() ?? 0) - (a.startedAt?.getTime() ?? 0))
+      .map((session) => {
+        const sessionAccounts = accounts.filter((account) => account.sessionId === session.id);
+        return {
+          ...session,
+          accountCount: sessionAccounts.length,
+          repName: sessionAccounts.find((account) => account.repName)?.repName ?? null,
+        };
+      });
+  }
+
+  async getCallSession(id: string): Promise<CallSession | undefined> {
+    return this.callSessions.get(id);
+  }
+
+  async createCallSession(insertSession: InsertCallSession, userId: number): Promise<CallSession> {
+    const session: CallSession = {
+      callerName: null,
+      payer: null,
+      phoneNumber: null,
+      organizationId: null,
+      ...insertSession,
+      id: randomUUID(),
+      userId,
+      status: "open",
+      startedAt: new Date(),
+      endedAt: null,
+    };
+    this.callSessions.set(session.id, session);
+    return session;
+  }
+
+  async closeCallSession(id: string): Promise<CallSession | undefined> {
+    const existing = this.callSessions.get(id);
+    if (!existing) return undefined;
+
+    const closed: CallSession = { ...existing, status: "closed", endedAt: new Date() };
+    this.callSessions.set(id, closed);
+    return closed;
+  }
+
+  async reopenCallSession(id: string): Promise<CallSession | undefined> {
+    const existing = this.callSessions.get(id);
+    if (!existing) return undefined;
+
+    const reopened: CallSession = { ...existing, status: "open", endedAt: null };
+    this.callSessions.set(id, reopened);
+    return reopened;
+  }
+
   async getPatientAccountsBySession(sessionId: string): Promise<PatientAccount[]> {
     return Array.from(this.patientAccounts.values()).filter(
       (account) => account.sessionId === sessionId
@@ -56,7 +267,29 @@ export class MemStorage implements IStorage {
   async createPatientAccount(insertAccount: InsertPatientAccount): Promise<PatientAccount> {
     const id = this.currentAccountId++;
     const now = new Date();
+    // Mirror the column defaults Postgres would apply so both storages return the same shape
     const account: PatientAccount = { 
+      repName: null,
+      callReference: null,
+      denialCode: null,
+      denialDescription: null,
+      groupCode: null,
+      remarkCodes: [],
+      questionPath: [],
+      status: "open",
+      dateOfService: null,
+      eligibilityFromDate: null,
+      eligibilityTermDate: null,
+      eligibilityStatus: null,
+      authorizationNumber: null,
+      additionalNotes: null,
+      claimNumber: null,
+      billedAmount: null,
+      allowedAmount: null,
+      paidAmount: null,
+      adjustmentAmount: null,
+      patientResponsibility: null,
+      outstandingBalance: null,
       ...insertAccount, 
       id,
       createdAt: now,
@@ -79,9 +312,1038 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async setPatientAccountStatus(id: number, status: AccountStatus): Promise<PatientAccount | undefined> {
+    const existing = this.patientAccounts.get(id);
+    if (!existing) return undefined;
+
+    const updated: PatientAccount = { ...existing, status, updatedAt: new Date() };
+    this.patientAccounts.set(id, updated);
+    return updated;
+  }
+
   async deletePatientAccount(id: number): Promise<boolean> {
+    // Claim lines, answers and comments cascade with their account, as the foreign keys do in Postgres
+    Array.from(this.claimLines.values())
+      .filter((line) => line.accountId === id)
+      .forEach((line) => this.claimLines.delete(line.id));
+    Array.from(this.questionAnswers.values())
+      .filter((answer) => answer.accountId === id)
+      .forEach((answer) => this.questionAnswers.delete(answer.id));
+    Array.from(this.comments.values())
+      .filter((comment) => comment.accountId === id)
+      .forEach((comment) => this.comments.delete(comment.id));
     return this.patientAccounts.delete(id);
   }
+
+  async getClaimLines(accountId: number): Promise<ClaimLine[]> {
+    return Array.from(this.claimLines.values())
+      .filter((line) => line.accountId === accountId)
+      .sort((a, b) => a.lineNumber - b.lineNumber);
+  }
+
+  async getClaimLine(id: number): Promise<ClaimLine | undefined> {
+    return this.claimLines.get(id);
+  }
+
+  async createClaimLine(insertLine: InsertClaimLine): Promise<ClaimLine> {
+    const id = this.currentClaimLineId++;
+    const now = new Date();
+    const line: ClaimLine = {
+      modifiers: [],
+      units: 1,
+      billedAmount: null,
+      allowedAmount: null,
+      paidAmount: null,
+      denialCodes: [],
+      ...insertLine,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.claimLines.set(id, line);
+    return line;
+  }
+
+  async updateClaimLine(id: number, updates: UpdateClaimLine): Promise<ClaimLine | undefined> {
+    const existing = this.claimLines.get(id);
+    if (!existing) return undefined;
+
+    const updated: ClaimLine = { ...existing, ...updates, updatedAt: new Date() };
+    this.claimLines.set(id, updated);
+    return updated;
+  }
+
+  async deleteClaimLine(id: number): Promise<boolean> {
+    return this.claimLines.delete(id);
+  }
+
+  async getQuestionAnswers(accountId: number): Promise<QuestionAnswer[]> {
+    return Array.from(this.questionAnswers.values())
+      .filter((answer) => answer.accountId === accountId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getQuestionAnswer(accountId: number, question: string): Promise<QuestionAnswer | undefined> {
+    return Array.from(this.questionAnswers.values()).find(
+      (answer) => answer.accountId === accountId && answer.question === question,
+    );
+  }
+
+  async upsertQuestionAnswer(insertAnswer: InsertQuestionAnswer): Promise<QuestionAnswer> {
+    const existing = await this.getQuestionAnswer(insertAnswer.accountId, insertAnswer.question);
+    const now = new Date();
+    const answer: QuestionAnswer = existing
+      ? { ...existing, ...insertAnswer, updatedAt: now }
+      : { answerType: "text", ...insertAnswer, id: this.currentQuestionAnswerId++, createdAt: now, updatedAt: now };
+    this.questionAnswers.set(answer.id, answer);
+    return answer;
+  }
+
+  async deleteQuestionAnswer(accountId: number, question: string): Promise<boolean> {
+    const existing = await this.getQuestionAnswer(accountId, question);
+    return existing ? this.questionAnswers.delete(existing.id) : false;
+  }
+
+  async getDenialCodes(): Promise<DenialCode[]> {
+    return Array.from(this.denialCodes.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getDenialCode(id: number): Promise<DenialCode | undefined> {
+    return this.denialCodes.get(id);
+  }
+
+  async findDenialCode(groupCode: GroupCode | null, code: string): Promise<DenialCode | undefined> {
+    return Array.from(this.denialCodes.values()).find(
+      (denialCode) => denialCode.groupCode === groupCode && denialCode.code === code,
+    );
+  }
+
+  async createDenialCode(insertDenialCode: InsertDenialCode): Promise<DenialCode> {
+    const id = this.currentDenialCodeId++;
+    const now = new Date();
+    const denialCode: DenialCode = {
+      groupCode: null,
+      commentSummary: "",
+      questions: [],
+      requiredFields: [],
+      nextSteps: [],
+      fieldRules: [],
+      questionAnswerTypes: {},
+      questionTree: null,
+      ...insertDenialCode,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.denialCodes.set(id, denialCode);
+    return denialCode;
+  }
+
+  async updateDenialCode(id: number, updates: UpdateDenialCode): Promise<DenialCode | undefined> {
+    const existing = this.denialCodes.get(id);
+    if (!existing) return undefined;
+
+    const updated: DenialCode = { ...existing, ...updates, updatedAt: new Date() };
+    this.denialCodes.set(id, updated);
+    return updated;
+  }
+
+  async deleteDenialCode(id: number): Promise<boolean> {
+    // Overrides and templates cascade with their code, as the foreign keys do in Postgres
+    Array.from(this.denialCodeOverrides.values())
+      .filter((override) => override.denialCodeId === id)
+      .forEach((override) => this.denialCodeOverrides.delete(override.id));
+    Array.from(this.commentTemplates.values())
+      .filter((template) => template.denialCodeId === id)
+      .forEach((template) => this.commentTemplates.delete(template.id));
+    return this.denialCodes.delete(id);
+  }
+
+  async seedDenialCodes(defaults: InsertDenialCode[]): Promise<void> {
+    if (this.denialCodes.size > 0) return;
+    for (const denialCode of defaults) {
+      await this.createDenialCode(denialCode);
+    }
+  }
+
+  async getDenialCodeOverrides(): Promise<DenialCodeOverride[]> {
+    return Array.from(this.denialCodeOverrides.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getDenialCodeOverride(id: number): Promise<DenialCodeOverride | undefined> {
+    return this.denialCodeOverrides.get(id);
+  }
+
+  async findDenialCodeOverride(denialCodeId: number, payer: string): Promise<DenialCodeOverride | undefined> {
+    return Array.from(this.denialCodeOverrides.values()).find(
+      (override) => override.denialCodeId === denialCodeId && override.payer === payer,
+    );
+  }
+
+  async createDenialCodeOverride(insertOverride: InsertDenialCodeOverride): Promise<DenialCodeOverride> {
+    const id = this.currentDenialCodeOverrideId++;
+    const now = new Date();
+    const override: DenialCodeOverride = {
+      questions: null,
+      requiredFields: null,
+      nextSteps: null,
+      ...insertOverride,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.denialCodeOverrides.set(id, override);
+    return override;
+  }
+
+  async updateDenialCodeOverride(id: number, updates: UpdateDenialCodeOverride): Promise<DenialCodeOverride | undefined> {
+    const existing = this.denialCodeOverrides.get(id);
+    if (!existing) return undefined;
+
+    const updated: DenialCodeOverride = { ...existing, ...updates, updatedAt: new Date() };
+    this.denialCodeOverrides.set(id, updated);
+    return updated;
+  }
+
+  async deleteDenialCodeOverride(id: number): Promise<boolean> {
+    return this.denialCodeOverrides.delete(id);
+  }
+
+  async getOrganizations(): Promise<Organization[]> {
+    return Array.from(this.organizations.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async findOrganizationByName(name: string): Promise<Organization | undefined> {
+    return Array.from(this.organizations.values()).find(
+      (organization) => organization.name.toLowerCase() === name.toLowerCase(),
+    );
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const id = this.currentOrganizationId++;
+    const organization: Organization = { ...insertOrganization, id, createdAt: new Date() };
+    this.organizations.set(id, organization);
+    return organization;
+  }
+
+  async updateOrganization(id: number, updates: InsertOrganization): Promise<Organization | undefined> {
+    const existing = this.organizations.get(id);
+    if (!existing) return undefined;
+
+    const updated: Organization = { ...existing, ...updates };
+    this.organizations.set(id, updated);
+    return updated;
+  }
+
+  async deleteOrganization(id: number): Promise<boolean> {
+    // Mirror the foreign keys: sessions are unlinked, templates and dictionary entries cascade
+    Array.from(this.callSessions.values())
+      .filter((session) => session.organizationId === id)
+      .forEach((session) => this.callSessions.set(session.id, { ...session, organizationId: null }));
+    Array.from(this.commentTemplates.values())
+      .filter((template) => template.organizationId === id)
+      .forEach((template) => this.commentTemplates.delete(template.id));
+    Array.from(this.noteDictionary.values())
+      .filter((entry) => entry.organizationId === id)
+      .forEach((entry) => this.noteDictionary.delete(entry.id));
+    return this.organizations.delete(id);
+  }
+
+  async getCommentTemplates(): Promise<CommentTemplate[]> {
+    return Array.from(this.commentTemplates.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getCommentTemplate(id: number): Promise<CommentTemplate | undefined> {
+    return this.commentTemplates.get(id);
+  }
+
+  async findCommentTemplate(organizationId: number | null, denialCodeId: number | null): Promise<CommentTemplate | undefined> {
+    return Array.from(this.commentTemplates.values()).find(
+      (template) => template.organizationId === organizationId && template.denialCodeId === denialCodeId,
+    );
+  }
+
+  async createCommentTemplate(insertTemplate: InsertCommentTemplate): Promise<CommentTemplate> {
+    const id = this.currentCommentTemplateId++;
+    const now = new Date();
+    const template: CommentTemplate = { ...insertTemplate, id, createdAt: now, updatedAt: now };
+    this.commentTemplates.set(id, template);
+    return template;
+  }
+
+  async updateCommentTemplate(id: number, updates: UpdateCommentTemplate): Promise<CommentTemplate | undefined> {
+    const existing = this.commentTemplates.get(id);
+    if (!existing) return undefined;
+
+    const updated: CommentTemplate = { ...existing, ...updates, updatedAt: new Date() };
+    this.commentTemplates.set(id, updated);
+    return updated;
+  }
+
+  async deleteCommentTemplate(id: number): Promise<boolean> {
+    Array.from(this.comments.values())
+      .filter((comment) => comment.templateId === id)
+      .forEach((comment) => this.comments.set(comment.id, { ...comment, templateId: null }));
+    return this.commentTemplates.delete(id);
+  }
+
+  async getNoteDictionary(): Promise<NoteDictionaryEntry[]> {
+    return Array.from(this.noteDictionary.values()).sort((a, b) => a.phrase.localeCompare(b.phrase) || a.id - b.id);
+  }
+
+  async getNoteDictionaryEntry(id: number): Promise<NoteDictionaryEntry | undefined> {
+    return this.noteDictionary.get(id);
+  }
+
+  async findNoteDictionaryEntry(organizationId: number | null, phrase: string): Promise<NoteDictionaryEntry | undefined> {
+    return Array.from(this.noteDictionary.values()).find(
+      (entry) => entry.organizationId === organizationId && entry.phrase === phrase,
+    );
+  }
+
+  async createNoteDictionaryEntry(insertEntry: InsertNoteDictionaryEntry): Promise<NoteDictionaryEntry> {
+    const id = this.currentNoteDictionaryEntryId++;
+    const now = new Date();
+    const entry: NoteDictionaryEntry = { ...insertEntry, id, createdAt: now, updatedAt: now };
+    this.noteDictionary.set(id, entry);
+    return entry;
+  }
+
+  async updateNoteDictionaryEntry(id: number, updates: UpdateNoteDictionaryEntry): Promise<NoteDictionaryEntry | undefined> {
+    const existing = this.noteDictionary.get(id);
+    if (!existing) return undefined;
+
+    const updated: NoteDictionaryEntry = { ...existing, ...updates, updatedAt: new Date() };
+    this.noteDictionary.set(id, updated);
+    return updated;
+  }
+
+  async deleteNoteDictionaryEntry(id: number): Promise<boolean> {
+    return this.noteDictionary.delete(id);
+  }
+
+  async seedNoteDictionary(defaults: InsertNoteDictionaryEntry[]): Promise<void> {
+    if (this.noteDictionary.size > 0) return;
+    for (const entry of defaults) {
+      await this.createNoteDictionaryEntry(entry);
+    }
+  }
+
+  async getComments(accountId: number): Promise<AccountCommentEntry[]> {
+    return Array.from(this.comments.values())
+      .filter((comment) => comment.accountId === accountId)
+      .sort((a, b) => a.id - b.id)
+      .map((comment) => ({
+        ...comment,
+        authorName: (comment.authorId && this.users.get(comment.authorId)?.username) || null,
+      }));
+  }
+
+  async getComment(id: number): Promise<AccountComment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async createComment(accountId: number, insertComment: InsertComment, authorId: number): Promise<AccountComment> {
+    const { finalized, ...fields } = insertComment;
+    const comment: AccountComment = {
+      templateId: null,
+      generatedFromId: null,
+      format: null,
+      ...fields,
+      id: this.currentCommentId++,
+      accountId,
+      authorId,
+      finalizedAt: finalized ? new Date() : null,
+      createdAt: new Date(),
+    };
+    this.comments.set(comment.id, comment);
+    return comment;
+  }
+
+  async finalizeComment(id: number): Promise<AccountComment | undefined> {
+    const existing = this.comments.get(id);
+    if (!existing) return undefined;
+
+    const finalized: AccountComment = { ...existing, finalizedAt: new Date() };
+    this.comments.set(id, finalized);
+    return finalized;
+  }
+
+  async searchReasonCodes(query: ReasonCodeQuery): Promise<ReasonCode[]> {
+    const search = query.q?.toLowerCase();
+    return Array.from(this.reasonCodes.values())
+      .filter((reasonCode) => !query.type || reasonCode.type === query.type)
+      .filter((reasonCode) =>
+        !search ||
+        reasonCode.code.toLowerCase().startsWith(search) ||
+        reasonCode.description.toLowerCase().includes(search))
+      .sort((a, b) => a.code.length - b.code.length || a.code.localeCompare(b.code))
+      .slice(0, query.limit);
+  }
+
+  async upsertReasonCodes(codes: InsertReasonCode[]): Promise<void> {
+    for (const code of codes) {
+      const key = `${code.type}:${code.code}`;
+      const existing = this.reasonCodes.get(key);
+      this.reasonCodes.set(key, {
+        startDate: null,
+        stopDate: null,
+        ...code,
+        id: existing?.id ?? this.currentReasonCodeId++,
+        updatedAt: new Date(),
+      });
+    }
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      accountId: null,
+      sessionId: null,
+      changes: null,
+      ...insertEvent,
+      id: this.currentAuditEventId++,
+      createdAt: new Date(),
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEvent[]> {
+    return this.auditEvents
+      .filter((event) =>
+        (query.userId === undefined || event.userId === query.userId) &&
+        (query.accountId === undefined || event.accountId === query.accountId) &&
+        (query.from === undefined || event.createdAt >= query.from) &&
+        (query.to === undefined || event.createdAt <= query.to)
+      )
+      .reverse();
+  }
+}
+
+// PHI columns sealed by the application before they reach the database
+const encryptedAccountFields = ["patientName", "accountNumber", "additionalNotes", "callReference", "claimNumber"] as const;
+
+type EncryptedAccountFields = { [K in typeof encryptedAccountFields[number]]?: string | null };
+
+// Audit entries carry PHI for the encrypted account columns and for question answers and comments, which are free text
+function isEncryptedAuditField(field: string): boolean {
+  return (encryptedAccountFields as readonly string[]).includes(field) || /^(questionAnswers\.\d+\.value|comments\.\d+\.body)$/.test(field);
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database, private cipher: FieldCipher, public sessionStore: session.Store) {}
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: UpdateUser): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getCallSessions(userId?: number): Promise<CallSessionSummary[]> {
+    return this.db
+      .select({
+        ...getTableColumns(callSessions),
+        accountCount: sql<number>`cast(count(${patientAccounts.id}) as int)`,
+        repName: sql<string | null>`max(${patientAccounts.repName})`,
+      })
+      .from(callSessions)
+      .leftJoin(patientAccounts, eq(patientAccounts.sessionId, callSessions.id))
+      .where(userId === undefined ? undefined : eq(callSessions.userId, userId))
+      .groupBy(callSessions.id)
+      .orderBy(desc(callSessions.startedAt));
+  }
+
+  async getCallSession(id: string): Promise<CallSession | undefined> {
+    const [session] = await this.db.select().from(callSessions).where(eq(callSessions.id, id));
+    return session;
+  }
+
+  async createCallSession(insertSession: InsertCallSession, userId: number): Promise<CallSession> {
+    const [session] = await this.db
+      .insert(callSessions)
+      .values({ ...insertSession, id: randomUUID(), userId })
+      .returning();
+    return session;
+  }
+
+  async closeCallSession(id: string): Promise<CallSession | undefined> {
+    const [session] = await this.db
+      .update(callSessions)
+      .set({ status: "closed", endedAt: new Date() })
+      .where(eq(callSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async reopenCallSession(id: string): Promise<CallSession | undefined> {
+    const [session] = await this.db
+      .update(callSessions)
+      .set({ status: "open", endedAt: null })
+      .where(eq(callSessions.id, id))
+      .returning();
+    return session;
+  }
+
+  private sealAccountFields<T extends EncryptedAccountFields>(values: T): T {
+    const sealed = { ...values };
+    for (const field of encryptedAccountFields) {
+      const value = sealed[field];
+      if (typeof value === "string") {
+        sealed[field] = this.cipher.encrypt(value) as T[typeof field];
+      }
+    }
+    return sealed;
+  }
+
+  private openAccountFields<T extends EncryptedAccountFields>(values: T): T {
+    const opened = { ...values };
+    for (const field of encryptedAccountFields) {
+      const value = opened[field];
+      if (typeof value === "string") {
+        opened[field] = this.cipher.decrypt(value) as T[typeof field];
+      }
+    }
+    return opened;
+  }
+
+  async getPatientAccountsBySession(sessionId: string): Promise<PatientAccount[]> {
+    const accounts = await this.db
+      .select()
+      .from(patientAccounts)
+      .where(eq(patientAccounts.sessionId, sessionId))
+      .orderBy(patientAccounts.id);
+    return accounts.map((account) => this.openAccountFields(account));
+  }
+
+  async getPatientAccount(id: number): Promise<PatientAccount | undefined> {
+    const [account] = await this.db.select().from(patientAccounts).where(eq(patientAccounts.id, id));
+    return account && this.openAccountFields(account);
+  }
+
+  async createPatientAccount(insertAccount: InsertPatientAccount): Promise<PatientAccount> {
+    const [account] = await this.db
+      .insert(patientAccounts)
+      .values(this.sealAccountFields(insertAccount))
+      .returning();
+    return this.openAccountFields(account);
+  }
+
+  async updatePatientAccount(id: number, updates: UpdatePatientAccount): Promise<PatientAccount | undefined> {
+    const [account] = await this.db
+      .update(patientAccounts)
+      .set({ ...this.sealAccountFields(updates), updatedAt: new Date() })
+      .where(eq(patientAccounts.id, id))
+      .returning();
+    return account && this.openAccountFields(account);
+  }
+
+  async setPatientAccountStatus(id: number, status: AccountStatus): Promise<PatientAccount | undefined> {
+    const [account] = await this.db
+      .update(patientAccounts)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(patientAccounts.id, id))
+      .returning();
+    return account && this.openAccountFields(account);
+  }
+
+  async deletePatientAccount(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(patientAccounts)
+      .where(eq(patientAccounts.id, id))
+      .returning({ id: patientAccounts.id });
+    return deleted.length > 0;
+  }
+
+  async getClaimLines(accountId: number): Promise<ClaimLine[]> {
+    return this.db
+      .select()
+      .from(claimLines)
+      .where(eq(claimLines.accountId, accountId))
+      .orderBy(claimLines.lineNumber);
+  }
+
+  async getClaimLine(id: number): Promise<ClaimLine | undefined> {
+    const [line] = await this.db.select().from(claimLines).where(eq(claimLines.id, id));
+    return line;
+  }
+
+  async createClaimLine(insertLine: InsertClaimLine): Promise<ClaimLine> {
+    const [line] = await this.db.insert(claimLines).values(insertLine).returning();
+    return line;
+  }
+
+  async updateClaimLine(id: number, updates: UpdateClaimLine): Promise<ClaimLine | undefined> {
+    const [line] = await this.db
+      .update(claimLines)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(claimLines.id, id))
+      .returning();
+    return line;
+  }
+
+  async deleteClaimLine(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(claimLines)
+      .where(eq(claimLines.id, id))
+      .returning({ id: claimLines.id });
+    return deleted.length > 0;
+  }
+
+  async getQuestionAnswers(accountId: number): Promise<QuestionAnswer[]> {
+    const answers = await this.db
+      .select()
+      .from(questionAnswers)
+      .where(eq(questionAnswers.accountId, accountId))
+      .orderBy(questionAnswers.id);
+    return answers.map((answer) => ({ ...answer, value: this.cipher.decrypt(answer.value) }));
+  }
+
+  async getQuestionAnswer(accountId: number, question: string): Promise<QuestionAnswer | undefined> {
+    const [answer] = await this.db
+      .select()
+      .from(questionAnswers)
+      .where(and(eq(questionAnswers.accountId, accountId), eq(questionAnswers.question, question)));
+    return answer && { ...answer, value: this.cipher.decrypt(answer.value) };
+  }
+
+  async upsertQuestionAnswer(insertAnswer: InsertQuestionAnswer): Promise<QuestionAnswer> {
+    const sealed = { ...insertAnswer, value: this.cipher.encrypt(insertAnswer.value) };
+    const [answer] = await this.db
+      .insert(questionAnswers)
+      .values(sealed)
+      .onConflictDoUpdate({
+        target: [questionAnswers.accountId, questionAnswers.question],
+        set: { answerType: sealed.answerType, value: sealed.value, updatedAt: new Date() },
+      })
+      .returning();
+    return { ...answer, value: insertAnswer.value };
+  }
+
+  async deleteQuestionAnswer(accountId: number, question: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(questionAnswers)
+      .where(and(eq(questionAnswers.accountId, accountId), eq(questionAnswers.question, question)))
+      .returning({ id: questionAnswers.id });
+    return deleted.length > 0;
+  }
+
+  async getDenialCodes(): Promise<DenialCode[]> {
+    return this.db.select().from(denialCodes).orderBy(denialCodes.id);
+  }
+
+  async getDenialCode(id: number): Promise<DenialCode | undefined> {
+    const [denialCode] = await this.db.select().from(denialCodes).where(eq(denialCodes.id, id));
+    return denialCode;
+  }
+
+  async findDenialCode(groupCode: GroupCode | null, code: string): Promise<DenialCode | undefined> {
+    const [denialCode] = await this.db
+      .select()
+      .from(denialCodes)
+      .where(and(
+        groupCode ? eq(denialCodes.groupCode, groupCode) : isNull(denialCodes.groupCode),
+        eq(denialCodes.code, code),
+      ));
+    return denialCode;
+  }
+
+  async createDenialCode(insertDenialCode: InsertDenialCode): Promise<DenialCode> {
+    const [denialCode] = await this.db.insert(denialCodes).values(insertDenialCode).returning();
+    return denialCode;
+  }
+
+  async updateDenialCode(id: number, updates: UpdateDenialCode): Promise<DenialCode | undefined> {
+    const [denialCode] = await this.db
+      .update(denialCodes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(denialCodes.id, id))
+      .returning();
+    return denialCode;
+  }
+
+  async deleteDenialCode(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(denialCodes)
+      .where(eq(denialCodes.id, id))
+      .returning({ id: denialCodes.id });
+    return deleted.length > 0;
+  }
+
+  async seedDenialCodes(defaults: InsertDenialCode[]): Promise<void> {
+    const [existing] = await this.db.select({ id: denialCodes.id }).from(denialCodes).limit(1);
+    if (existing || defaults.length === 0) return;
+    await this.db.insert(denialCodes).values(defaults).onConflictDoNothing();
+  }
+
+  async getDenialCodeOverrides(): Promise<DenialCodeOverride[]> {
+    return this.db.select().from(denialCodeOverrides).orderBy(denialCodeOverrides.id);
+  }
+
+  async getDenialCodeOverride(id: number): Promise<DenialCodeOverride | undefined> {
+    const [override] = await this.db.select().from(denialCodeOverrides).where(eq(denialCodeOverrides.id, id));
+    return override;
+  }
+
+  async findDenialCodeOverride(denialCodeId: number, payer: string): Promise<DenialCodeOverride | undefined> {
+    const [override] = await this.db
+      .select()
+      .from(denialCodeOverrides)
+      .where(and(eq(denialCodeOverrides.denialCodeId, denialCodeId), eq(denialCodeOverrides.payer, payer)));
+    return override;
+  }
+
+  async createDenialCodeOverride(insertOverride: InsertDenialCodeOverride): Promise<DenialCodeOverride> {
+    const [override] = await this.db.insert(denialCodeOverrides).values(insertOverride).returning();
+    return override;
+  }
+
+  async updateDenialCodeOverride(id: number, updates: UpdateDenialCodeOverride): Promise<DenialCodeOverride | undefined> {
+    const [override] = await this.db
+      .update(denialCodeOverrides)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(denialCodeOverrides.id, id))
+      .returning();
+    return override;
+  }
+
+  async deleteDenialCodeOverride(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(denialCodeOverrides)
+      .where(eq(denialCodeOverrides.id, id))
+      .returning({ id: denialCodeOverrides.id });
+    return deleted.length > 0;
+  }
+
+  async getOrganizations(): Promise<Organization[]> {
+    return this.db.select().from(organizations).orderBy(organizations.name);
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  async findOrganizationByName(name: string): Promise<Organization | undefined> {
+    const [organization] = await this.db.select().from(organizations).where(eq(sql`lower(${organizations.name})`, name.toLowerCase()));
+    return organization;
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const [organization] = await this.db.insert(organizations).values(insertOrganization).returning();
+    return organization;
+  }
+
+  async updateOrganization(id: number, updates: InsertOrganization): Promise<Organization | undefined> {
+    const [organization] = await this.db
+      .update(organizations)
+      .set(updates)
+      .where(eq(organizations.id, id))
+      .returning();
+    return organization;
+  }
+
+  async deleteOrganization(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(organizations)
+      .where(eq(organizations.id, id))
+      .returning({ id: organizations.id });
+    return deleted.length > 0;
+  }
+
+  async getCommentTemplates(): Promise<CommentTemplate[]> {
+    return this.db.select().from(commentTemplates).orderBy(commentTemplates.id);
+  }
+
+  async getCommentTemplate(id: number): Promise<CommentTemplate | undefined> {
+    const [template] = await this.db.select().from(commentTemplates).where(eq(commentTemplates.id, id));
+    return template;
+  }
+
+  async findCommentTemplate(organizationId: number | null, denialCodeId: number | null): Promise<CommentTemplate | undefined> {
+    const [template] = await this.db
+      .select()
+      .from(commentTemplates)
+      .where(and(
+        organizationId ? eq(commentTemplates.organizationId, organizationId) : isNull(commentTemplates.organizationId),
+        denialCodeId ? eq(commentTemplates.denialCodeId, denialCodeId) : isNull(commentTemplates.denialCodeId),
+      ));
+    return template;
+  }
+
+  async createCommentTemplate(insertTemplate: InsertCommentTemplate): Promise<CommentTemplate> {
+    const [template] = await this.db.insert(commentTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateCommentTemplate(id: number, updates: UpdateCommentTemplate): Promise<CommentTemplate | undefined> {
+    const [template] = await this.db
+      .update(commentTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(commentTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteCommentTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(commentTemplates)
+      .where(eq(commentTemplates.id, id))
+      .returning({ id: commentTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async getNoteDictionary(): Promise<NoteDictionaryEntry[]> {
+    return this.db.select().from(noteDictionary).orderBy(noteDictionary.phrase, noteDictionary.id);
+  }
+
+  async getNoteDictionaryEntry(id: number): Promise<NoteDictionaryEntry | undefined> {
+    const [entry] = await this.db.select().from(noteDictionary).where(eq(noteDictionary.id, id));
+    return entry;
+  }
+
+  async findNoteDictionaryEntry(organizationId: number | null, phrase: string): Promise<NoteDictionaryEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(noteDictionary)
+      .where(and(
+        organizationId ? eq(noteDictionary.organizationId, organizationId) : isNull(noteDictionary.organizationId),
+        eq(noteDictionary.phrase, phrase),
+      ));
+    return entry;
+  }
+
+  async createNoteDictionaryEntry(insertEntry: InsertNoteDictionaryEntry): Promise<NoteDictionaryEntry> {
+    const [entry] = await this.db.insert(noteDictionary).values(insertEntry).returning();
+    return entry;
+  }
+
+  async updateNoteDictionaryEntry(id: number, updates: UpdateNoteDictionaryEntry): Promise<NoteDictionaryEntry | undefined> {
+    const [entry] = await this.db
+      .update(noteDictionary)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(noteDictionary.id, id))
+      .returning();
+    return entry;
+  }
+
+  async deleteNoteDictionaryEntry(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(noteDictionary)
+      .where(eq(noteDictionary.id, id))
+      .returning({ id: noteDictionary.id });
+    return deleted.length > 0;
+  }
+
+  async seedNoteDictionary(defaults: InsertNoteDictionaryEntry[]): Promise<void> {
+    const [existing] = await this.db.select({ id: noteDictionary.id }).from(noteDictionary).limit(1);
+    if (existing || defaults.length === 0) return;
+    await this.db.insert(noteDictionary).values(defaults).onConflictDoNothing();
+  }
+
+  async getComments(accountId: number): Promise<AccountCommentEntry[]> {
+    const entries = await this.db
+      .select({ ...getTableColumns(comments), authorName: users.username })
+      .from(comments)
+      .leftJoin(users, eq(users.id, comments.authorId))
+      .where(eq(comments.accountId, accountId))
+      .orderBy(comments.id);
+    return entries.map((entry) => ({ ...entry, body: this.cipher.decrypt(entry.body) }));
+  }
+
+  async getComment(id: number): Promise<AccountComment | undefined> {
+    const [comment] = await this.db.select().from(comments).where(eq(comments.id, id));
+    return comment && { ...comment, body: this.cipher.decrypt(comment.body) };
+  }
+
+  async createComment(accountId: number, insertComment: InsertComment, authorId: number): Promise<AccountComment> {
+    const { finalized, ...fields } = insertComment;
+    const [comment] = await this.db
+      .insert(comments)
+      .values({
+        ...fields,
+        body: this.cipher.encrypt(fields.body),
+        accountId,
+        authorId,
+        finalizedAt: finalized ? new Date() : null,
+      })
+      .returning();
+    return { ...comment, body: insertComment.body };
+  }
+
+  async finalizeComment(id: number): Promise<AccountComment | undefined> {
+    const [comment] = await this.db
+      .update(comments)
+      .set({ finalizedAt: new Date() })
+      .where(eq(comments.id, id))
+      .returning();
+    return comment && { ...comment, body: this.cipher.decrypt(comment.body) };
+  }
+
+  async searchReasonCodes(query: ReasonCodeQuery): Promise<ReasonCode[]> {
+    const search = query.q;
+    return this.db
+      .select()
+      .from(reasonCodes)
+      .where(and(
+        query.type ? eq(reasonCodes.type, query.type) : undefined,
+        search ? or(ilike(reasonCodes.code, `${search}%`), ilike(reasonCodes.description, `%${search}%`)) : undefined,
+      ))
+      .orderBy(sql`length(${reasonCodes.code})`, asc(reasonCodes.code))
+      .limit(query.limit);
+  }
+
+  async upsertReasonCodes(codes: InsertReasonCode[]): Promise<void> {
+    // Keep each statement well under Postgres' bind parameter limit
+    for (let i = 0; i < codes.length; i += 500) {
+      await this.db
+        .insert(reasonCodes)
+        .values(codes.slice(i, i + 500))
+        .onConflictDoUpdate({
+          target: [reasonCodes.type, reasonCodes.code],
+          set: {
+            description: sql`excluded.description`,
+            startDate: sql`excluded.start_date`,
+            stopDate: sql`excluded.stop_date`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+  }
+
+  // Field-level before/after values of PHI columns are sealed the same way as the account itself
+  private sealAuditChanges(changes: AuditChanges | null | undefined): AuditChanges | null {
+    if (!changes) return null;
+    return Object.fromEntries(Object.entries(changes).map(([field, change]) => [
+      field,
+      isEncryptedAuditField(field)
+        ? {
+            before: typeof change.before === "string" ? this.cipher.encrypt(change.before) : change.before,
+            after: typeof change.after === "string" ? this.cipher.encrypt(change.after) : change.after,
+          }
+        : change,
+    ]));
+  }
+
+  private openAuditChanges(changes: AuditChanges | null): AuditChanges | null {
+    if (!changes) return null;
+    return Object.fromEntries(Object.entries(changes).map(([field, change]) => [
+      field,
+      {
+        before: typeof change.before === "string" ? this.cipher.decrypt(change.before) : change.before,
+        after: typeof change.after === "string" ? this.cipher.decrypt(change.after) : change.after,
+      },
+    ]));
+  }
+
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db
+      .insert(auditEvents)
+      .values({ ...insertEvent, changes: this.sealAuditChanges(insertEvent.changes) })
+      .returning();
+    return { ...event, changes: this.openAuditChanges(event.changes) };
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<AuditEvent[]> {
+    return this.db
+      .select()
+      .from(auditEvents)
+      .where(and(
+        query.userId === undefined ? undefined : eq(auditEvents.userId, query.userId),
+        query.accountId === undefined ? undefined : eq(auditEvents.accountId, query.accountId),
+        query.from === undefined ? undefined : gte(auditEvents.createdAt, query.from),
+        query.to === undefined ? undefined : lte(auditEvents.createdAt, query.to),
+      ))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .then((events) => events.map((event) => ({ ...event, changes: this.openAuditChanges(event.changes) })));
+  }
+
+  // Re-seal every PHI value that is still plaintext or under a retired key with the active key.
+  // Only the ciphertext changes, so audit rows keep their meaning and accounts keep their updatedAt.
+  async rotateEncryptionKey(): Promise<{ accounts: number; questionAnswers: number; comments: number; auditEvents: number }> {
+    let rotatedAccounts = 0;
+    for (const account of await this.db.select().from(patientAccounts)) {
+      const stale = encryptedAccountFields.some((field) => {
+        const value = account[field];
+        return typeof value === "string" && this.cipher.needsReencryption(value);
+      });
+      if (!stale) continue;
+
+      const resealed = this.sealAccountFields(this.openAccountFields(account));
+      await this.db
+        .update(patientAccounts)
+        .set(Object.fromEntries(encryptedAccountFields.map((field) => [field, resealed[field]])))
+        .where(eq(patientAccounts.id, account.id));
+      rotatedAccounts++;
+    }
+
+    let rotatedAnswers = 0;
+    for (const answer of await this.db.select().from(questionAnswers)) {
+      if (!this.cipher.needsReencryption(answer.value)) continue;
+      await this.db
+        .update(questionAnswers)
+        .set({ value: this.cipher.encrypt(this.cipher.decrypt(answer.value)) })
+        .where(eq(questionAnswers.id, answer.id));
+      rotatedAnswers++;
+    }
+
+    let rotatedComments = 0;
+    for (const comment of await this.db.select().from(comments)) {
+      if (!this.cipher.needsReencryption(comment.body)) continue;
+      await this.db
+        .update(comments)
+        .set({ body: this.cipher.encrypt(this.cipher.decrypt(comment.body)) })
+        .where(eq(comments.id, comment.id));
+      rotatedComments++;
+    }
+
+    let rotatedAuditEvents = 0;
+    for (const event of await this.db.select().from(auditEvents)) {
+      const stale = Object.entries(event.changes ?? {}).some(([field, change]) =>
+        isEncryptedAuditField(field) &&
+        [change.before, change.after].some((value) => typeof value === "string" && this.cipher.needsReencryption(value))
+      );
+      if (!stale) continue;
+
+      await this.db
+        .update(auditEvents)
+        .set({ changes: this.sealAuditChanges(this.openAuditChanges(event.changes)) })
+        .where(eq(auditEvents.id, event.id));
+      rotatedAuditEvents++;
+    }
+
+    return { accounts: rotatedAccounts, questionAnswers: rotatedAnswers, comments: rotatedComments, auditEvents: rotatedAuditEvents };
+  }
+}
+
+function createDbStorage(connectionString: string): DbStorage {
+  const db = createDb(connectionString);
+  const sessionStore = new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+  return new DbStorage(db, cipherFromEnv(), sessionStore);
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned; fall back to memory for local dev
+export const storage: IStorage = process.env.DATABASE_URL
+  ? createDbStorage(process.env.DATABASE_URL)
+  : new MemStorage();
@@ -0,0 +1,20 @@
+import type { AccountStatus, DenialCode, PatientAccount } from "./schema";
+import { denialCodeRules, evaluateFieldRules } from "./field-rules";
+
+export const accountStatusLabels: Record<AccountStatus, string> = {
+  open: "Open",
+  in_progress: "In Progress",
+  completed: "Completed",
+  needs_follow_up: "Needs Follow-up",
+};
+
+// Why an account can't be marked completed under its denial code's guidance; empty when it can
+export function completionBlockers(
+  account: Partial<PatientAccount> | Record<string, unknown>,
+  guidance: Pick<DenialCode, "requiredFields" | "fieldRules"> | null | undefined,
+): string[] {
+  if (!guidance) return [];
+  return evaluateFieldRules(denialCodeRules(guidance), account)
+    .filter((result) => !result.passed)
+    .map((result) => result.reason!);
+}
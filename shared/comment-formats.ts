@@ -0,0 +1,153 @@
+// Note constraints of the billing systems comments are pasted into. Limits are the conservative
+// ones our clients run with; adjust here when a client's configuration differs.
+export interface CommentFormat {
+  label: string;
+  // Characters allowed in the whole note, newlines included; longer notes are cut at a word
+  maxLength?: number;
+  // Hard-wrap at this many characters per line
+  lineWidth?: number;
+  // Lines kept after wrapping; later lines are dropped
+  maxLines?: number;
+  casing: "preserve" | "upper";
+  // Characters the system accepts; anything else is transliterated or dropped
+  allowed?: RegExp;
+  // "short" swaps common billing phrases for their standard abbreviations
+  abbreviations: "none" | "short";
+}
+
+export const commentFormatIds = ["standard", "epic", "athena", "ecw", "mainframe"] as const;
+
+export type CommentFormatId = typeof commentFormatIds[number];
+
+export const commentFormats: Record<CommentFormatId, CommentFormat> = {
+  standard: { label: "Standard", casing: "preserve", abbreviations: "none" },
+  epic: { label: "Epic account note", maxLength: 2000, casing: "preserve", abbreviations: "none" },
+  athena: { label: "athenaOne claim note", maxLength: 1000, casing: "preserve", abbreviations: "none" },
+  ecw: { label: "eClinicalWorks", maxLength: 500, casing: "preserve", abbreviations: "short" },
+  mainframe: {
+    label: "Mainframe (80-col uppercase)",
+    lineWidth: 80,
+    maxLines: 8,
+    casing: "upper",
+    allowed: /[A-Z0-9 .,:;#/$%&()\-\n]/,
+    abbreviations: "short",
+  },
+};
+
+// Longest phrases first so "date of service" wins over "service"
+const shortForms: [string, string][] = [
+  ["coordination of benefits", "COB"],
+  ["date of service", "DOS"],
+  ["patient responsibility", "PT RESP"],
+  ["outstanding balance", "BAL"],
+  ["additional notes", "NOTES"],
+  ["call ref", "REF"],
+  ["spoke with", "SW"],
+  ["authorization", "AUTH"],
+  ["eligibility", "ELIG"],
+  ["adjustments", "ADJ"],
+  ["adjustment", "ADJ"],
+  ["insurance", "INS"],
+  ["diagnosis", "DX"],
+  ["procedure", "PROC"],
+  ["documentation", "DOCS"],
+  ["patient", "PT"],
+  ["claim", "CLM"],
+  ["billed", "BLD"],
+  ["allowed", "ALWD"],
+  ["reference", "REF"],
+  ["resubmission", "RESUB"],
+  ["with", "W/"],
+];
+
+const transliterations: [RegExp, string][] = [
+  [/[‘’]/g, "'"],
+  [/[“”]/g, '"'],
+  [/[–—]/g, "-"],
+  [/…/g, "..."],
+  [/\+/g, " and "],
+  [/@/g, " at "],
+];
+
+export interface FormattedComment {
+  text: string;
+  // True when content was cut to fit the length or line limits
+  truncated: boolean;
+  // Characters that had to be dropped because the system doesn't accept them
+  droppedCharacters: string[];
+}
+
+function abbreviate(text: string): string {
+  return shortForms.reduce(
+    (result, [phrase, short]) => result.replace(new RegExp(`\\b${phrase}\\b`, "gi"), short),
+    text,
+  );
+}
+
+// Greedy word wrap; words longer than a line are split
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (let word of paragraph.split(/\s+/).filter(Boolean)) {
+      while (word.length > width) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+        line = "";
+      }
+      if (!line) line = word;
+      else if (line.length + 1 + word.length <= width) line += ` ${word}`;
+      else {
+        lines.push(line);
+        line = word;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
+
+// Cut at the last word boundary that fits
+function cut(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  const head = text.slice(0, maxLength);
+  const boundary = head.search(/\s\S*$/);
+  return (boundary > maxLength / 2 ? head.slice(0, boundary) : head).trimEnd();
+}
+
+export function formatComment(comment: string, format: CommentFormat): FormattedComment {
+  let text = comment;
+  if (format.allowed) {
+    text = transliterations.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+  }
+  if (format.abbreviations === "short") text = abbreviate(text);
+  if (format.casing === "upper") text = text.toUpperCase();
+
+  const dropped = new Set<string>();
+  if (format.allowed) {
+    const allowed = format.allowed;
+    text = Array.from(text, (char) => {
+      if (allowed.test(char)) return char;
+      if (/\s/.test(char)) return " ";
+      dropped.add(char);
+      return "";
+    }).join("");
+  }
+  text = text.replace(/[ \t]+/g, " ").trim();
+
+  let truncated = false;
+  if (format.lineWidth) {
+    let lines = wrap(text, format.lineWidth);
+    if (format.maxLines && lines.length > format.maxLines) {
+      lines = lines.slice(0, format.maxLines);
+      truncated = true;
+    }
+    text = lines.join("\n");
+  }
+  if (format.maxLength && text.length > format.maxLength) {
+    text = cut(text, format.maxLength);
+    truncated = true;
+  }
+  return { text, truncated, droppedCharacters: Array.from(dropped) };
+}
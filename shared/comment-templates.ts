@@ -0,0 +1,97 @@
+import type { CommentTemplate } from "./schema";
+
+// Values a comment template can refer to, with what each holds; shown to admins next to the editor
+export const commentPlaceholders: Record<string, string> = {
+  rep: "Rep name",
+  payer: "Insurance name",
+  code: "Full denial code, e.g. CO-45",
+  groupCode: "Group code, e.g. CO",
+  reasonCode: "Reason code, e.g. 45",
+  summary: "The denial code's comment summary",
+  liability: "Who is liable under the group code",
+  callRef: "Call reference number",
+  patient: "Patient name",
+  account: "Account number",
+  dos: "Date of service",
+  eligibilityStatus: "Eligibility status",
+  eligibilityFrom: "Eligibility from date",
+  eligibilityTerm: "Eligibility term date",
+  authorization: "Authorization number",
+  claimNumber: "Claim number",
+  billed: "Billed amount",
+  allowed: "Allowed amount",
+  paid: "Paid amount",
+  adjustments: "Adjustment amount",
+  patientResponsibility: "Patient responsibility",
+  balance: "Outstanding balance",
+  financials: "Claim number with every captured amount",
+  remarks: "Remark codes",
+  deniedLines: "Denied claim lines",
+  answers: "Call script path and rep answers",
+  notes: "Cleaned-up additional notes",
+};
+
+// Today's wording; used wherever no stored template matches
+export const defaultCommentTemplate =
+  "Spoke with {{rep|[Rep Name]}} from {{payer|[Insurance]}} - {{code|[Code]}}: {{summary}}." +
+  "{{#liability}} {{liability}}.{{/liability}}" +
+  "{{#remarks}} Remark codes: {{remarks}}.{{/remarks}}" +
+  "{{#financials}} {{financials}}{{/financials}}" +
+  "{{#deniedLines}} {{deniedLines}}{{/deniedLines}}" +
+  "{{#answers}} Rep answers: {{answers}}.{{/answers}}" +
+  "{{#notes}} Additional notes: {{notes}}{{/notes}}" +
+  " Call ref #{{callRef|[Reference]}}";
+
+export type CommentValues = Record<string, string>;
+
+const sectionPattern = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const placeholderPattern = /\{\{(\w+)(?:\|([^}]*))?\}\}/g;
+
+// Mustache-style rendering: {{name}} inserts a value and {{name|fallback}} stands in when it is
+// empty; {{#name}}...{{/name}} is kept only when the value is filled in, {{^name}}...{{/name}} only
+// when it isn't. Unknown names render as empty.
+export function renderCommentTemplate(template: string, values: CommentValues): string {
+  let text = template;
+  // Sections can nest, so strip them from the inside out
+  let previous;
+  do {
+    previous = text;
+    text = text.replace(sectionPattern, (_match, kind: string, name: string, body: string) => {
+      const filled = Boolean(values[name]?.trim());
+      return (kind === "#") === filled ? body : "";
+    });
+  } while (text !== previous);
+  return text.replace(placeholderPattern, (_match, name: string, fallback?: string) => values[name]?.trim() || fallback || "").trim();
+}
+
+// Names a template refers to that the renderer doesn't know about; usually a typo
+export function unknownPlaceholders(template: string): string[] {
+  const names = Array.from(template.matchAll(/\{\{[#^/]?(\w+)/g), (match) => match[1]);
+  return Array.from(new Set(names)).filter((name) => !(name in commentPlaceholders));
+}
+
+// Most specific first: organization and code, organization default, code for everyone, global default.
+// Undefined when no stored template applies and the built-in default is used.
+export function findCommentTemplate(
+  templates: CommentTemplate[],
+  organizationId: number | null | undefined,
+  denialCodeId: number | null | undefined,
+): CommentTemplate | undefined {
+  const find = (orgId: number | null, codeId: number | null) =>
+    templates.find((template) => template.organizationId === orgId && template.denialCodeId === codeId);
+  const candidates = [
+    organizationId && denialCodeId ? find(organizationId, denialCodeId) : undefined,
+    organizationId ? find(organizationId, null) : undefined,
+    denialCodeId ? find(null, denialCodeId) : undefined,
+    find(null, null),
+  ];
+  return candidates.find(Boolean);
+}
+
+export function resolveCommentTemplate(
+  templates: CommentTemplate[],
+  organizationId: number | null | undefined,
+  denialCodeId: number | null | undefined,
+): string {
+  return findCommentTemplate(templates, organizationId, denialCodeId)?.body ?? defaultCommentTemplate;
+}
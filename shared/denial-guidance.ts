@@ -0,0 +1,81 @@
+import type { DenialCode, DenialCodeOverride, GroupCode, ListOverride, QuestionNode, QuestionPathStep, QuestionTree } from "./schema";
+
+export type GuidanceList = "questions" | "requiredFields" | "nextSteps";
+
+export const guidanceLists: GuidanceList[] = ["questions", "requiredFields", "nextSteps"];
+
+// Guidance written for this exact group, falling back to the entry that applies under any group
+export function findDenialGuidance(catalog: DenialCode[], groupCode: GroupCode | null, reasonCode: string): DenialCode | undefined {
+  if (!reasonCode) return undefined;
+  return catalog.find(entry => entry.code === reasonCode && entry.groupCode === groupCode)
+    ?? catalog.find(entry => entry.code === reasonCode && entry.groupCode === null);
+}
+
+export function applyListOverride(base: string[], override: ListOverride | null | undefined): string[] {
+  if (!override) return base;
+  switch (override.mode) {
+    case "add":
+      return [...base, ...override.items.filter((item) => !base.includes(item))];
+    case "replace":
+      return override.items;
+    case "reorder": {
+      // Listed items move to the front in the given order; anything unlisted keeps its place after them
+      const listed = override.items.filter((item) => base.includes(item));
+      return [...listed, ...base.filter((item) => !listed.includes(item))];
+    }
+  }
+}
+
+// The guidance a caller sees for a code with the payer's override (if any) layered on top
+export function resolveDenialGuidance(denialCode: DenialCode, override?: DenialCodeOverride | null): DenialCode {
+  if (!override) return denialCode;
+  return {
+    ...denialCode,
+    questions: applyListOverride(denialCode.questions, override.questions),
+    requiredFields: applyListOverride(denialCode.requiredFields, override.requiredFields),
+    nextSteps: applyListOverride(denialCode.nextSteps, override.nextSteps),
+  };
+}
+
+// Returns a message when the script can't be walked from start to finish: a missing step or a loop
+export function questionTreeError(tree: QuestionTree): string | null {
+  if (!tree.nodes[tree.start]) return "The call script has no first question";
+
+  const visit = (nodeId: string, ancestors: string[]): string | null => {
+    const node = tree.nodes[nodeId];
+    if (!node) return `An answer leads to a question that does not exist (${nodeId})`;
+    if (ancestors.includes(nodeId)) return `The call script loops back to "${node.question}"`;
+    for (const answer of node.answers) {
+      const error = answer.next ? visit(answer.next, [...ancestors, nodeId]) : null;
+      if (error) return error;
+    }
+    return null;
+  };
+  return visit(tree.start, []);
+}
+
+export interface ScriptPosition {
+  // Steps from the saved path that still match the script
+  steps: QuestionPathStep[];
+  // Id of the question to ask next, or null once an answer with no follow-up was given
+  currentId: string | null;
+  current: QuestionNode | null;
+}
+
+// Replay a saved path through the script, stopping at the first step that no longer matches,
+// e.g. after an admin reworded a question or removed an answer
+export function walkQuestionTree(tree: QuestionTree, path: QuestionPathStep[]): ScriptPosition {
+  const steps: QuestionPathStep[] = [];
+  let currentId: string | null = tree.start;
+
+  for (const step of path) {
+    if (!currentId || step.nodeId !== currentId) break;
+    const node: QuestionNode | undefined = tree.nodes[currentId];
+    const answer: QuestionNode["answers"][number] | undefined = node?.answers.find((option) => option.label === step.answer);
+    if (!answer) break;
+    steps.push({ nodeId: currentId, question: node.question, answer: answer.label });
+    currentId = answer.next ?? null;
+  }
+
+  return { steps, currentId, current: currentId ? tree.nodes[currentId] ?? null : null };
+}
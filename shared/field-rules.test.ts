@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { defaultDenialCodes } from "../server/denial-code-seed";
+import { evaluateFieldRule, evaluateFieldRules } from "./field-rules";
+import type { FieldRule } from "./schema";
+
+// As seeded for CO-27 (expenses incurred after coverage terminated): the service has to fall before the term date
+const dosBeforeTerm: FieldRule = { type: "before", field: "dateOfService", other: "eligibilityTermDate" };
+
+describe("date comparison rules", () => {
+  // [name, dateOfService, eligibilityTermDate, applies, passed]
+  const cases: [string, string, string, boolean, boolean][] = [
+    ["MM/DD/YYYY dates in order", "12/01/2024", "12/31/2024", true, true],
+    ["MM/DD/YYYY dates out of order", "03/14/2025", "12/31/2024", true, false],
+    ["ISO dates", "2025-03-14", "2024-12-31", true, false],
+    ["an ISO date against an MM/DD/YYYY date", "2024-12-01", "12/31/2024", true, true],
+    ["the same day is not before", "12/31/2024", "12/31/2024", true, false],
+    ["a bare year", "2025", "12/31/2024", false, true],
+    ["a month name", "March", "12/31/2024", false, true],
+    ["a partial date", "1/2", "12/31/2024", false, true],
+    ["a single-digit month", "3/14/2025", "12/31/2024", false, true],
+    ["a written-out date", "March 14, 2025", "12/31/2024", false, true],
+    ["a day the calendar doesn't have", "02/30/2025", "12/31/2024", false, true],
+    ["an impossible ISO month", "2025-13-01", "12/31/2024", false, true],
+    ["a missing date", "", "12/31/2024", false, true],
+  ];
+
+  it.each(cases)("%s", (_name, dateOfService, eligibilityTermDate, applies, passed) => {
+    const result = evaluateFieldRule(dosBeforeTerm, { dateOfService, eligibilityTermDate });
+    expect({ applies: result.applies, passed: result.passed }).toEqual({ applies, passed });
+  });
+
+  it("compares the other way for after rules", () => {
+    const dosAfterFrom: FieldRule = { type: "after", field: "dateOfService", other: "eligibilityFromDate" };
+    expect(evaluateFieldRule(dosAfterFrom, { dateOfService: "03/14/2025", eligibilityFromDate: "01/01/2025" }).passed).toBe(true);
+    expect(evaluateFieldRule(dosAfterFrom, { dateOfService: "12/14/2024", eligibilityFromDate: "01/01/2025" }).passed).toBe(false);
+  });
+
+  it("says which dates failed the comparison", () => {
+    const result = evaluateFieldRule(dosBeforeTerm, { dateOfService: "01/15/2025", eligibilityTermDate: "12/31/2024" });
+    expect(result.reason).toBe("Date of Service (01/15/2025) must be before Eligibility Term Date (12/31/2024)");
+  });
+});
+
+describe("required rules", () => {
+  const termedNeedsFromDate: FieldRule = {
+    type: "required",
+    field: "eligibilityFromDate",
+    when: [{ field: "eligibilityStatus", equals: "terminated" }],
+  };
+
+  const cases: [string, Record<string, unknown>, boolean, boolean][] = [
+    ["condition holds and the field is empty", { eligibilityStatus: "terminated" }, true, false],
+    ["condition holds and the field is blank", { eligibilityStatus: "terminated", eligibilityFromDate: "  " }, true, false],
+    ["condition holds and the field is filled", { eligibilityStatus: "terminated", eligibilityFromDate: "01/01/2024" }, true, true],
+    ["condition doesn't hold", { eligibilityStatus: "active" }, false, true],
+  ];
+
+  it.each(cases)("%s", (_name, values, applies, passed) => {
+    const result = evaluateFieldRule(termedNeedsFromDate, values);
+    expect({ applies: result.applies, passed: result.passed }).toEqual({ applies, passed });
+  });
+
+  it("explains the condition in the failure", () => {
+    const [result] = evaluateFieldRules([termedNeedsFromDate], { eligibilityStatus: "terminated" });
+    expect(result.reason).toBe("Eligibility From Date is required when Eligibility Status is terminated");
+  });
+});
+
+// The seed is what new databases start with, so its rules are checked as shipped
+describe("seeded CO-27 rules", () => {
+  const co27 = defaultDenialCodes.find((entry) => entry.groupCode === "CO" && entry.code === "27");
+  const failures = (values: Record<string, unknown>) =>
+    evaluateFieldRules(co27?.fieldRules ?? [], values).filter((result) => !result.passed).map((result) => result.reason);
+
+  it("is seeded with rules", () => {
+    expect(co27?.fieldRules).toContainEqual(dosBeforeTerm);
+  });
+
+  it.each([
+    ["service before the term date", { dateOfService: "12/01/2024", eligibilityTermDate: "12/31/2024" }, []],
+    ["service after the term date", { dateOfService: "03/14/2025", eligibilityTermDate: "12/31/2024" },
+      ["Date of Service (03/14/2025) must be before Eligibility Term Date (12/31/2024)"]],
+    ["terminated without a from date", { eligibilityStatus: "terminated" },
+      ["Eligibility From Date is required when Eligibility Status is terminated"]],
+  ])("%s", (_name, values, expected) => {
+    expect(failures(values)).toEqual(expected);
+  });
+});
@@ -0,0 +1,106 @@
+import type { DenialCode, FieldCondition, FieldRule } from "./schema";
+
+// Account fields as the form labels them; rules and their failure messages refer to fields by these names
+export const accountFieldLabels: Record<string, string> = {
+  patientName: "Patient Name",
+  accountNumber: "Account Number",
+  insuranceName: "Insurance",
+  repName: "Rep Name",
+  callReference: "Call Reference #",
+  dateOfService: "Date of Service",
+  eligibilityStatus: "Eligibility Status",
+  eligibilityFromDate: "Eligibility From Date",
+  eligibilityTermDate: "Eligibility Term Date",
+  authorizationNumber: "Authorization Number",
+  claimNumber: "Claim Number",
+  billedAmount: "Billed Amount",
+  allowedAmount: "Allowed Amount",
+  paidAmount: "Paid Amount",
+  adjustmentAmount: "Adjustments",
+  patientResponsibility: "Patient Responsibility",
+  outstandingBalance: "Outstanding Balance",
+  additionalNotes: "Additional Notes",
+};
+
+export function fieldLabel(field: string): string {
+  return accountFieldLabels[field] ?? field;
+}
+
+export interface RuleResult {
+  rule: FieldRule;
+  // False when the rule's conditions don't hold for this account, or a comparison is missing a date
+  applies: boolean;
+  passed: boolean;
+  // Why the rule applies, e.g. "Eligibility Status is terminated"
+  condition: string | null;
+  // Why the rule fails; null when it passes or doesn't apply
+  reason: string | null;
+}
+
+type AccountValues = Record<string, unknown>;
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && String(value).trim() !== "";
+
+function conditionHolds(condition: FieldCondition, values: AccountValues): boolean {
+  const value = values[condition.field];
+  if (condition.equals !== undefined) return String(value ?? "") === condition.equals;
+  if (condition.in !== undefined) return condition.in.includes(String(value ?? ""));
+  return isFilled(value);
+}
+
+function describeCondition(condition: FieldCondition): string {
+  const label = fieldLabel(condition.field);
+  if (condition.equals !== undefined) return `${label} is ${condition.equals}`;
+  if (condition.in !== undefined) return `${label} is one of ${condition.in.join(", ")}`;
+  return `${label} is filled in`;
+}
+
+// Dates are entered as MM/DD/YYYY; ISO YYYY-MM-DD is accepted as well. Anything looser ("2024", "March",
+// "1/2") or a day the calendar doesn't have is not a date, so comparisons against it don't apply.
+function parseDate(value: unknown): number | null {
+  if (!isFilled(value)) return null;
+  const text = String(value).trim();
+  const us = text.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!us && !iso) return null;
+  const [year, month, day] = us ? [+us[3], +us[1], +us[2]] : [+iso![1], +iso![2], +iso![3]];
+  const time = Date.UTC(year, month - 1, day);
+  const date = new Date(time);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? time : null;
+}
+
+export function evaluateFieldRule(rule: FieldRule, values: AccountValues): RuleResult {
+  const conditions = rule.when ?? [];
+  const condition = conditions.length > 0 ? conditions.map(describeCondition).join(" and ") : null;
+  if (!conditions.every((c) => conditionHolds(c, values))) {
+    return { rule, applies: false, passed: true, condition, reason: null };
+  }
+
+  if (rule.type === "required") {
+    const passed = isFilled(values[rule.field]);
+    const reason = rule.message || `${fieldLabel(rule.field)} is required${condition ? ` when ${condition}` : ""}`;
+    return { rule, applies: true, passed, condition, reason: passed ? null : reason };
+  }
+
+  const date = parseDate(values[rule.field]);
+  const other = parseDate(values[rule.other]);
+  if (date === null || other === null) {
+    return { rule, applies: false, passed: true, condition, reason: null };
+  }
+  const passed = rule.type === "before" ? date < other : date > other;
+  const reason = rule.message ||
+    `${fieldLabel(rule.field)} (${values[rule.field]}) must be ${rule.type} ${fieldLabel(rule.other)} (${values[rule.other]})`;
+  return { rule, applies: true, passed, condition, reason: passed ? null : reason };
+}
+
+// A code's static required fields followed by its conditional rules
+export function denialCodeRules(denialCode: Pick<DenialCode, "requiredFields" | "fieldRules">): FieldRule[] {
+  return [
+    ...denialCode.requiredFields.map((field): FieldRule => ({ type: "required", field })),
+    ...denialCode.fieldRules,
+  ];
+}
+
+export function evaluateFieldRules(rules: FieldRule[], values: AccountValues): RuleResult[] {
+  return rules.map((rule) => evaluateFieldRule(rule, values));
+}
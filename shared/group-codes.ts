@@ -0,0 +1,63 @@
+import { groupCodes, type GroupCode } from "./schema";
+
+export const groupCodeLabels: Record<GroupCode, string> = {
+  CO: "Contractual Obligation",
+  PR: "Patient Responsibility",
+  OA: "Other Adjustment",
+  PI: "Payer Initiated Reduction",
+  CR: "Correction and Reversal",
+};
+
+// Who carries the adjusted amount, which is what changes the caller's next move
+export const groupCodeLiability: Record<GroupCode, { summary: string; comment: string; nextSteps: string[] }> = {
+  CO: {
+    summary: "Provider liability under the payer contract. The adjusted amount cannot be billed to the patient.",
+    comment: "Contractual adjustment, not billable to patient",
+    nextSteps: ["Correct and resubmit or appeal; otherwise write off per contract"],
+  },
+  PR: {
+    summary: "Patient liability. The adjusted amount can be billed to the patient or their secondary coverage.",
+    comment: "Patient responsibility, balance may be billed to patient or secondary",
+    nextSteps: ["Bill secondary insurance if on file", "Transfer remaining balance to patient statement"],
+  },
+  OA: {
+    summary: "Neither contractual nor patient liability, often coordination of benefits or a prior payer's payment.",
+    comment: "Other adjustment, liability not assigned to provider or patient",
+    nextSteps: ["Check coordination of benefits and prior payer payments before adjusting"],
+  },
+  PI: {
+    summary: "Payer-initiated reduction outside the contract. The patient cannot be billed, but it can usually be appealed.",
+    comment: "Payer-initiated reduction, appealable and not billable to patient",
+    nextSteps: ["Request the policy basis for the reduction and appeal if unsupported"],
+  },
+  CR: {
+    summary: "Correction or reversal of a previously adjudicated claim.",
+    comment: "Correction/reversal of prior adjudication",
+    nextSteps: ["Locate the original claim and reconcile the reversed payment"],
+  },
+};
+
+export function isGroupCode(value: string): value is GroupCode {
+  return (groupCodes as readonly string[]).includes(value);
+}
+
+// "CO-45" -> { groupCode: "CO", reasonCode: "45" }; values without a group prefix keep a null group
+export function splitDenialCode(value: string): { groupCode: GroupCode | null; reasonCode: string } {
+  const match = value.trim().toUpperCase().match(/^([A-Z]{2})-(.+)$/);
+  if (match && isGroupCode(match[1])) {
+    return { groupCode: match[1], reasonCode: match[2] };
+  }
+  return { groupCode: null, reasonCode: value.trim() };
+}
+
+export function formatDenialCode(groupCode: GroupCode | null | undefined, reasonCode: string | null | undefined): string {
+  if (!reasonCode) return groupCode ?? "";
+  return groupCode ? `${groupCode}-${reasonCode}` : reasonCode;
+}
+
+// Accounts saved before the group code was split out hold "CO-45" in denialCode
+export function denialCodeParts(account: { groupCode?: GroupCode | null; denialCode?: string | null }) {
+  if (!account.denialCode) return { groupCode: account.groupCode ?? null, reasonCode: "" };
+  const split = splitDenialCode(account.denialCode);
+  return { groupCode: account.groupCode ?? split.groupCode, reasonCode: split.reasonCode };
+}
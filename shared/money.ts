@@ -0,0 +1,40 @@
+// Money is stored as integer cents to avoid floating point drift
+
+export function formatCents(cents: number | null | undefined): string {
+  if (cents === null || cents === undefined) return "";
+  const sign = cents < 0 ? "-" : "";
+  return `${sign}$${(Math.abs(cents) / 100).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Plain dollar text for an editable input, e.g. 125000 -> "1250.00"
+export function formatDollarInput(cents: number | null | undefined): string {
+  if (cents === null || cents === undefined) return "";
+  return (cents / 100).toFixed(2);
+}
+
+// Parses user input such as "1,250.5" or "$80" into cents; blank input is null
+export function parseDollars(input: string): number | null | undefined {
+  const cleaned = input.replace(/[$,\s]/g, "");
+  if (cleaned === "") return null;
+  if (!/^-?\d+(\.\d{0,2})?$/.test(cleaned)) return undefined;
+  return Math.round(parseFloat(cleaned) * 100);
+}
+
+export interface ClaimAmounts {
+  billedAmount?: number | null;
+  paidAmount?: number | null;
+  adjustmentAmount?: number | null;
+  patientResponsibility?: number | null;
+}
+
+// Paid + adjustments + patient responsibility must add up to billed. The check only applies once all
+// four amounts are known, so a caller can fill them in one at a time.
+export function claimBalanceError(amounts: ClaimAmounts): string | null {
+  const { billedAmount, paidAmount, adjustmentAmount, patientResponsibility } = amounts;
+  if (billedAmount == null || paidAmount == null || adjustmentAmount == null || patientResponsibility == null) {
+    return null;
+  }
+  const accounted = paidAmount + adjustmentAmount + patientResponsibility;
+  if (accounted === billedAmount) return null;
+  return `Paid + adjustments + patient responsibility (${formatCents(accounted)}) must equal billed (${formatCents(billedAmount)})`;
+}
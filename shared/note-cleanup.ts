@@ -0,0 +1,95 @@
+import type { NoteDictionaryEntry } from "./schema";
+
+export type NoteReplacement = Pick<NoteDictionaryEntry, "phrase" | "replacement">;
+
+// One dictionary entry or formatting fix that changed the notes, for the "explain changes" view
+export type AppliedReplacement = { from: string; to: string; count: number };
+
+export type CleanedNotes = { text: string; changes: AppliedReplacement[] };
+
+// Entries for every organization, with the organization's own entries replacing ones for the same phrase
+export function noteDictionaryFor(entries: NoteDictionaryEntry[], organizationId: number | null | undefined): NoteReplacement[] {
+  const byPhrase = new Map<string, NoteReplacement>();
+  for (const entry of entries.filter((entry) => entry.organizationId === null)) byPhrase.set(entry.phrase, entry);
+  if (organizationId) {
+    for (const entry of entries.filter((entry) => entry.organizationId === organizationId)) byPhrase.set(entry.phrase, entry);
+  }
+  return Array.from(byPhrase.values());
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Phrases only match whole words, but a phrase ending in punctuation like "w/" may run into the next word
+function phrasePattern(phrase: string): string {
+  const body = phrase.split(" ").map(escapeRegExp).join("\\s+");
+  return `${/^\w/.test(phrase) ? "(?<!\\w)" : ""}${body}${/\w$/.test(phrase) ? "(?!\\w)" : ""}`;
+}
+
+// Replacements written with capitals ("Medicare") are used as written; lowercase ones follow what was typed
+function matchCase(typed: string, replacement: string): string {
+  if (/[A-Z]/.test(replacement)) return replacement;
+  if (/[a-z]/i.test(typed) && typed === typed.toUpperCase() && typed.replace(/[^a-z]/gi, "").length > 1) {
+    return replacement.toUpperCase();
+  }
+  if (/^[A-Z]/.test(typed)) return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  return replacement;
+}
+
+// Expand shorthand and fix misspellings in one pass, longest phrase first, so a replacement is never rewritten
+function applyDictionary(notes: string, dictionary: NoteReplacement[], record: (from: string, to: string) => void): string {
+  const entries = dictionary
+    .filter((entry) => entry.phrase.trim())
+    .sort((a, b) => b.phrase.length - a.phrase.length);
+  if (entries.length === 0) return notes;
+
+  const normalize = (phrase: string) => phrase.trim().toLowerCase().replace(/\s+/g, " ");
+  const byPhrase = new Map(entries.map((entry) => [normalize(entry.phrase), entry]));
+  const pattern = new RegExp(Array.from(byPhrase.keys(), (phrase) => `(${phrasePattern(phrase)})`).join("|"), "gi");
+  return notes.replace(pattern, (...args) => {
+    const typed: string = args[0];
+    const entry = byPhrase.get(normalize(typed));
+    if (!entry) return typed;
+    const replacement = matchCase(typed, entry.replacement);
+    record(typed, replacement);
+    // "w/patient" reads "with patient", not "withpatient"
+    const next = (args[args.length - 1] as string).charAt(args[args.length - 2] + typed.length);
+    return /\w$/.test(replacement) && /\w/.test(next) ? `${replacement} ` : replacement;
+  });
+}
+
+// Tidy free-text call notes for a comment: dictionary replacements, DDMMYYYY submission dates,
+// spacing, a leading capital and closing punctuation. Returns what changed alongside the text.
+export function cleanUpNotes(notes: string | null | undefined, dictionary: NoteReplacement[]): CleanedNotes {
+  if (!notes || notes.trim().length === 0) return { text: "", changes: [] };
+
+  const changes = new Map<string, AppliedReplacement>();
+  const record = (from: string, to: string) => {
+    const key = `${from.toLowerCase()}\u0000${to}`;
+    const existing = changes.get(key);
+    if (existing) existing.count++;
+    else changes.set(key, { from, to, count: 1 });
+  };
+
+  let improved = applyDictionary(notes.trim(), dictionary, record);
+
+  improved = improved
+    .replace(/\bother\s+claim\s*#\s*(\d+)/gi, "other claim #$1")
+    .replace(/\bsubmit\s+on\s+(\d{8})\b/gi, (match, date: string) => {
+      // Convert DDMMYYYY to MM/DD/YYYY
+      const converted = `submitted on ${date.substring(2, 4)}/${date.substring(0, 2)}/${date.substring(4, 8)}`;
+      record(match, converted);
+      return converted;
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // Capitalize first letter
+  improved = improved.charAt(0).toUpperCase() + improved.slice(1);
+
+  // Ensure it ends with proper punctuation
+  if (!improved.match(/[.!?]$/)) {
+    improved += ".";
+  }
+
+  return { text: improved, changes: Array.from(changes.values()) };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { extractNoteEntities, type NoteEntityField, type NoteEntityKind } from "./note-entities";
+
+const payers = [
+  { value: "aetna", label: "Aetna" },
+  { value: "bcbs", label: "Blue Cross Blue Shield" },
+  { value: "independence", label: "Independence Blue Cross" },
+  { value: "medicare", label: "Medicare" },
+  { value: "uhc", label: "United Healthcare (UHC)" },
+  { value: "other", label: "Other" },
+];
+
+type Expected = { kind: NoteEntityKind; value: string; field?: NoteEntityField };
+
+// Notes as typed, and every entity expected back in order; the field is the best guess a chip fills
+const cases: [string, string, Expected[]][] = [
+  ["claim number after a label", "clm # 2025ABC1234 denied", [{ kind: "claimNumber", value: "2025ABC1234", field: "claimNumber" }]],
+  ["claim number spelled out", "claim number is icn-88812", [{ kind: "claimNumber", value: "ICN-88812", field: "claimNumber" }]],
+  ["other claim # is not this claim", "paid to other claim #55555", []],
+  ["reference number", "ref# 1-2345678", [{ kind: "reference", value: "1-2345678", field: "callReference" }]],
+  ["confirmation number", "conf number is 77881", [{ kind: "reference", value: "77881", field: "callReference" }]],
+  ["reference without digits", "ref to provider", []],
+  ["prior auth number", "prior auth # PA99881", [{ kind: "authorization", value: "PA99881", field: "authorizationNumber" }]],
+  ["auth without a number", "auth required, auth not needed", []],
+  ["NPI with a valid check digit", "NPI 1234567893", [{ kind: "npi", value: "1234567893" }]],
+  ["NPI with a bad check digit", "NPI 1234567890", []],
+  ["fax number", "fax appeal to 800-555-1234", [{ kind: "fax", value: "(800) 555-1234" }]],
+  ["punctuated phone number", "call (212) 555-0100", [{ kind: "phone", value: "(212) 555-0100" }]],
+  ["labeled bare phone number", "call back 8005559876", [{ kind: "phone", value: "(800) 555-9876" }]],
+  ["bare digits are not a phone number", "member 8005559876", []],
+  ["MM/DD/YYYY date of service", "dos 03/14/2025", [{ kind: "date", value: "03/14/2025", field: "dateOfService" }]],
+  ["M/D/YY date", "seen on 3/4/25", [{ kind: "date", value: "03/04/2025", field: "dateOfService" }]],
+  ["ISO date", "eff 2024-01-01", [{ kind: "date", value: "01/01/2024", field: "eligibilityFromDate" }]],
+  ["month name date", "termed December 31, 2024", [{ kind: "date", value: "12/31/2024", field: "eligibilityTermDate" }]],
+  ["day month date", "active since 15th of March 2025", [{ kind: "date", value: "03/15/2025", field: "eligibilityFromDate" }]],
+  ["DDMMYYYY submission date", "submit on 14032025", [{ kind: "date", value: "03/14/2025", field: "dateOfService" }]],
+  ["second date of a range", "covered 01/01/2024 to 12/31/2024", [
+    { kind: "date", value: "01/01/2024", field: "dateOfService" },
+    { kind: "date", value: "12/31/2024", field: "eligibilityTermDate" },
+  ]],
+  ["impossible date", "dos 02/30/2025", []],
+  ["amounts with hints", "billed $1,250.00 paid $80 pt resp $45.50", [
+    { kind: "amount", value: "1250.00", field: "billedAmount" },
+    { kind: "amount", value: "80.00", field: "paidAmount" },
+    { kind: "amount", value: "45.50", field: "patientResponsibility" },
+  ]],
+  ["amount in words", "adj 100 dollars", [{ kind: "amount", value: "100.00", field: "adjustmentAmount" }]],
+  ["amount with too many decimals", "paid $12.345", []],
+  ["amount with a misplaced comma", "paid $1,2345", []],
+  ["payer by name", "Aetna says", [{ kind: "payer", value: "aetna", field: "insuranceName" }]],
+  ["payer by shorthand", "mcr is prim", [{ kind: "payer", value: "medicare", field: "insuranceName" }]],
+  ["payer by parenthesized short name", "UHC paid", [
+    { kind: "payer", value: "uhc", field: "insuranceName" },
+  ]],
+  ["longest payer name wins", "Independence Blue Cross denied", [{ kind: "payer", value: "independence", field: "insuranceName" }]],
+  ["the Other option is not a payer", "other carrier on file", []],
+  ["repeated values give one entity", "paid $80 and then $80 again", [{ kind: "amount", value: "80.00", field: "paidAmount" }]],
+  ["labeled numbers are not read twice", "claim # 800-555-1234", [{ kind: "claimNumber", value: "800-555-1234", field: "claimNumber" }]],
+];
+
+describe("extractNoteEntities", () => {
+  it.each(cases)("%s", (_name, notes, expected) => {
+    const entities = extractNoteEntities(notes, payers);
+    expect(entities.map(({ kind, value, fields }) => ({ kind, value, ...(fields[0] ? { field: fields[0] } : {}) }))).toEqual(expected);
+  });
+
+  it("returns nothing for empty notes", () => {
+    expect(extractNoteEntities("")).toEqual([]);
+    expect(extractNoteEntities(null)).toEqual([]);
+  });
+
+  it("keeps the typed text and its position", () => {
+    const [entity] = extractNoteEntities("pt called, ref: 99887");
+    expect(entity.text).toBe("ref: 99887");
+    expect(entity.index).toBe(11);
+  });
+});
@@ -0,0 +1,231 @@
+import { formatDollarInput, parseDollars } from "./money";
+
+export const noteEntityKinds = ["claimNumber", "reference", "authorization", "npi", "fax", "phone", "date", "amount", "payer"] as const;
+
+export type NoteEntityKind = typeof noteEntityKinds[number];
+
+// Account form fields a note entity can fill
+export type NoteEntityField =
+  | "claimNumber"
+  | "callReference"
+  | "authorizationNumber"
+  | "insuranceName"
+  | "dateOfService"
+  | "eligibilityFromDate"
+  | "eligibilityTermDate"
+  | "billedAmount"
+  | "allowedAmount"
+  | "paidAmount"
+  | "adjustmentAmount"
+  | "patientResponsibility"
+  | "outstandingBalance";
+
+export interface NoteEntity {
+  kind: NoteEntityKind;
+  // Normalized for the form: MM/DD/YYYY dates, dollar text like "125.00", "(800) 555-1234", payer option values
+  value: string;
+  // What was typed, label included
+  text: string;
+  index: number;
+  // Fields the value could go in, best guess first; empty for numbers the form has no field for
+  fields: NoteEntityField[];
+}
+
+export type PayerOption = { value: string; label: string };
+
+// Shorthand reps type for payers, keyed by payer option value
+const payerAliases: Record<string, string[]> = {
+  medicare: ["mcr"],
+  medicaid: ["mcd", "mcaid"],
+  bcbs: ["blue cross", "bluecross"],
+  uhc: ["united health care", "unitedhealthcare"],
+  healthnet: ["health net"],
+  tricare: ["champus"],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// "claim # 123", "claim number is 123", "ref: 123"
+const labelGap = String.raw`(?:\s*(?:number|num|nbr|no\.?|#|is|was|to|at|of|:|-))*\s*`;
+const identifier = String.raw`([A-Z0-9][A-Z0-9-]*[A-Z0-9])`;
+const phoneDigits = String.raw`(?:\+?1[\s.-]?)?\(?([2-9]\d{2})\)?[\s.-]?(\d{3})[\s.-]?(\d{4})`;
+
+const labeledIdentifiers: { kind: NoteEntityKind; field: NoteEntityField; label: string }[] = [
+  // "other claim #" is the claim a duplicate was paid under, not this one
+  { kind: "claimNumber", field: "claimNumber", label: String.raw`(?<!other\s+)(?:claim|clm|icn|dcn|tcn)` },
+  { kind: "authorization", field: "authorizationNumber", label: String.raw`(?:prior\s+|pre-?)?(?:auth(?:orization)?|precert|pa)` },
+  { kind: "reference", field: "callReference", label: String.raw`(?:call\s+)?(?:ref(?:erence)?|conf(?:irmation)?|ticket)` },
+];
+
+const monthNames = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const monthName = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+
+// Each pattern's groups are turned into [month, day, year]
+const datePatterns: { pattern: RegExp; parts: (match: RegExpExecArray) => [string, string, string] }[] = [
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g, parts: (m) => [m[2], m[3], m[1]] },
+  { pattern: /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/g, parts: (m) => [m[1], m[2], m[3]] },
+  {
+    pattern: new RegExp(String.raw`\b${monthName}\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b`, "gi"),
+    parts: (m) => [m[1], m[2], m[3]],
+  },
+  {
+    pattern: new RegExp(String.raw`\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?${monthName},?\s+(\d{4})\b`, "gi"),
+    parts: (m) => [m[2], m[1], m[3]],
+  },
+  // The team's "submit on DDMMYYYY" shorthand
+  { pattern: /(?<=\bon\s+)(\d{2})(\d{2})(\d{4})\b/gi, parts: (m) => [m[2], m[1], m[3]] },
+];
+
+// Words before a date or amount that say which field it belongs to, nearest one wins
+const dateHints: [NoteEntityField, RegExp][] = [
+  ["dateOfService", /\b(?:dos|date of service|service date|svc date|seen on)\b/g],
+  ["eligibilityFromDate", /\b(?:eff|effective|eligible|active|from|start(?:ed|s)?|began|since)\b/g],
+  ["eligibilityTermDate", /\b(?:term(?:ed|inated)?|thru|through|until|end(?:ed|s)?|inactive)\b/g],
+  // The second date of a range, "1/1/2024 to 12/31/2024"
+  ["eligibilityTermDate", /\d\s*(?:to|-|–)\s*$/g],
+];
+
+const amountHints: [NoteEntityField, RegExp][] = [
+  ["billedAmount", /\b(?:billed|bld|billing|charged?|charges)\b/g],
+  ["allowedAmount", /\b(?:allowed|alwd|allowable)\b/g],
+  ["paidAmount", /\b(?:paid|pd|payment|pmt|reimbursed)\b/g],
+  ["adjustmentAmount", /\b(?:adj(?:ustments?|usted)?|write[- ]?off|w\/o|contractual)\b/g],
+  ["patientResponsibility", /\b(?:pt resp|patient resp(?:onsibility)?|ptr|copay|co-?ins(?:urance)?|deductible|ded)\b/g],
+  ["outstandingBalance", /\b(?:bal(?:ance)?|outstanding|owed|owes|due)\b/g],
+];
+
+const dateFields: NoteEntityField[] = ["dateOfService", "eligibilityFromDate", "eligibilityTermDate"];
+const amountFields: NoteEntityField[] = ["billedAmount", "allowedAmount", "paidAmount", "adjustmentAmount", "patientResponsibility", "outstandingBalance"];
+
+// The hinted field first, then the rest in form order
+function rankFields(fields: NoteEntityField[], hints: [NoteEntityField, RegExp][], before: string, after: string): NoteEntityField[] {
+  const nearest = (text: string, fromEnd: boolean) => {
+    let best: { field: NoteEntityField; distance: number } | null = null;
+    for (const [field, hint] of hints) {
+      for (const match of Array.from(text.matchAll(hint))) {
+        const distance = fromEnd ? text.length - (match.index! + match[0].length) : match.index!;
+        if (!best || distance < best.distance) best = { field, distance };
+      }
+    }
+    return best?.field;
+  };
+  const hinted = nearest(before, true) ?? nearest(after, false);
+  return hinted ? [hinted, ...fields.filter((field) => field !== hinted)] : fields;
+}
+
+function toDate(month: string, day: string, year: string): string | null {
+  const monthNumber = /^\d+$/.test(month) ? parseInt(month) : monthNames.indexOf(month.slice(0, 3).toLowerCase()) + 1;
+  const fullYear = year.length === 2 ? 2000 + parseInt(year) - (parseInt(year) > 70 ? 100 : 0) : parseInt(year);
+  const dayNumber = parseInt(day);
+  const date = new Date(fullYear, monthNumber - 1, dayNumber);
+  if (date.getFullYear() !== fullYear || date.getMonth() !== monthNumber - 1 || date.getDate() !== dayNumber) return null;
+  return `${String(monthNumber).padStart(2, "0")}/${String(dayNumber).padStart(2, "0")}/${fullYear}`;
+}
+
+// NPIs carry a Luhn check digit computed with the 80840 health industry prefix
+function isValidNpi(npi: string): boolean {
+  const digits = `80840${npi}`.split("").map(Number).reverse();
+  const sum = digits.reduce((total, digit, position) => {
+    if (position % 2 === 0) return total + digit;
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+// Claim numbers, references, auth numbers, NPIs, fax and phone numbers, dates, amounts and payers
+// typed into free-text call notes, in the order they appear. Labeled numbers are read first so a
+// claim number is never also offered as a phone number or amount.
+export function extractNoteEntities(notes: string | null | undefined, payers: PayerOption[] = []): NoteEntity[] {
+  if (!notes || notes.trim().length === 0) return [];
+
+  const found: NoteEntity[] = [];
+  const claimed: [number, number][] = [];
+  const add = (entity: Omit<NoteEntity, "text">, length: number) => {
+    const end = entity.index + length;
+    if (claimed.some(([start, stop]) => entity.index < stop && end > start)) return;
+    claimed.push([entity.index, end]);
+    found.push({ ...entity, text: notes.slice(entity.index, end) });
+  };
+  const each = (pattern: RegExp, handle: (match: RegExpExecArray) => void) => {
+    for (const match of Array.from(notes.matchAll(pattern))) handle(match as RegExpExecArray);
+  };
+
+  each(new RegExp(String.raw`\bnpi${labelGap}(\d{10})\b`, "gi"), (match) => {
+    if (isValidNpi(match[1])) add({ kind: "npi", value: match[1], index: match.index, fields: [] }, match[0].length);
+  });
+
+  // "fax appeal to 800-555-1234": a few words may come between "fax" and the number
+  each(new RegExp(String.raw`\bfax(?:ed)?\b[^\d.;]{0,25}?${phoneDigits}(?!\d)`, "gi"), (match) => {
+    add({ kind: "fax", value: `(${match[1]}) ${match[2]}-${match[3]}`, index: match.index, fields: [] }, match[0].length);
+  });
+
+  for (const { kind, field, label } of labeledIdentifiers) {
+    each(new RegExp(String.raw`\b${label}(?![a-z])${labelGap}${identifier}`, "gi"), (match) => {
+      const value = match[1].toUpperCase();
+      // "auth required" and "ref to provider" are not numbers
+      if (!/\d/.test(value) || value.length < 4) return;
+      add({ kind, value, index: match.index, fields: [field] }, match[0].length);
+    });
+  }
+
+  // Bare digits are only a phone number when labeled; otherwise the number must be punctuated like one
+  each(new RegExp(String.raw`\b(?:ph(?:one)?|tel|call\s*back|cb)${labelGap}${phoneDigits}(?!\d)`, "gi"), (match) => {
+    add({ kind: "phone", value: `(${match[1]}) ${match[2]}-${match[3]}`, index: match.index, fields: [] }, match[0].length);
+  });
+  each(/(?<![\w-])(?:\+?1[\s.-]?)?(?:\(([2-9]\d{2})\)\s?|([2-9]\d{2})[\s.-])(\d{3})[\s.-](\d{4})(?![\w-])/g, (match) => {
+    const area = match[1] ?? match[2];
+    add({ kind: "phone", value: `(${area}) ${match[3]}-${match[4]}`, index: match.index, fields: [] }, match[0].length);
+  });
+
+  for (const { pattern, parts } of datePatterns) {
+    each(pattern, (match) => {
+      const value = toDate(...parts(match));
+      if (!value) return;
+      const before = notes.slice(Math.max(0, match.index - 30), match.index).toLowerCase();
+      const after = notes.slice(match.index + match[0].length, match.index + match[0].length + 15).toLowerCase();
+      add({ kind: "date", value, index: match.index, fields: rankFields(dateFields, dateHints, before, after) }, match[0].length);
+    });
+  }
+
+  // "$12.345" and "$1,2345" aren't amounts, so a match may not stop part way through the number
+  each(/(?<![\w.])(?:\$\s?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?)(?![.,]?\d)|((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d{1,2})?)\s*(?:dollars|usd)\b)/gi, (match) => {
+    const cents = parseDollars(match[1] ?? match[2]);
+    if (cents == null) return;
+    const before = notes.slice(Math.max(0, match.index - 30), match.index).toLowerCase();
+    const after = notes.slice(match.index + match[0].length, match.index + match[0].length + 20).toLowerCase();
+    add(
+      { kind: "amount", value: formatDollarInput(cents), index: match.index, fields: rankFields(amountFields, amountHints, before, after) },
+      match[0].length,
+    );
+  });
+
+  // Longest name first so "Independence Blue Cross" isn't read as "Blue Cross"
+  const payerNames = new Map<string, string>();
+  for (const payer of payers) {
+    if (payer.value === "other") continue;
+    const parenthesized = payer.label.match(/\(([^)]+)\)/);
+    const names = [payer.label, payer.label.replace(/\s*\(.*\)$/, ""), payer.value, ...(parenthesized ? [parenthesized[1]] : []), ...(payerAliases[payer.value] ?? [])];
+    for (const name of names) payerNames.set(name.toLowerCase().replace(/\s+/g, " "), payer.value);
+  }
+  if (payerNames.size > 0) {
+    const alternatives = Array.from(payerNames.keys())
+      .sort((a, b) => b.length - a.length)
+      .map((name) => escapeRegExp(name).replace(/ /g, "\\s+"));
+    each(new RegExp(String.raw`(?<!\w)(?:${alternatives.join("|")})(?!\w)`, "gi"), (match) => {
+      const value = payerNames.get(match[0].toLowerCase().replace(/\s+/g, " "));
+      if (value) add({ kind: "payer", value, index: match.index, fields: ["insuranceName"] }, match[0].length);
+    });
+  }
+
+  // One chip per value: "paid $80 ... $80 paid" is a single suggestion
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .filter((entity) => {
+      const key = `${entity.kind}\u0000${entity.value}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,12 @@
+import { userRoles, type UserRole } from "./schema";
+
+export const roleLabels: Record<UserRole, string> = {
+  caller: "Caller",
+  supervisor: "Supervisor",
+  admin: "Admin",
+};
+
+// True when `role` is at least as privileged as `required`
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return userRoles.indexOf(role) >= userRoles.indexOf(required);
+}
@@ -1,13 +1,70 @@
-import { pgTable, text, serial, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb, unique, uniqueIndex, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { claimBalanceError } from "./money";
+import { questionTreeError } from "./denial-guidance";
+import { commentFormatIds } from "./comment-formats";
+
+// Ordered from least to most privileged; each role can do everything the ones before it can
+export const userRoles = ["caller", "supervisor", "admin"] as const;
+
+// X12 claim adjustment group codes: who is liable for an adjusted amount
+export const groupCodes = ["CO", "PR", "OA", "PI", "CR"] as const;
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role", { enum: userRoles }).notNull().default("caller"),
+});
+
+// The client practices the AR team works for; comment wording can differ per organization
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const callSessionStatuses = ["open", "closed"] as const;
+
+export const callSessions = pgTable("call_sessions", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  callerName: text("caller_name"),
+  payer: text("payer"),
+  phoneNumber: text("phone_number"),
+  // Whose accounts are worked on this call; decides which comment templates apply
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "set null" }),
+  status: text("status", { enum: callSessionStatuses }).notNull().default("open"),
+  startedAt: timestamp("started_at").defaultNow(),
+  endedAt: timestamp("ended_at"),
 });
 
+// Where the caller is with an account; "completed" is only reachable once its required fields are filled in
+export const accountStatuses = ["open", "in_progress", "completed", "needs_follow_up"] as const;
+
+// A rule applies only when every condition holds: the field is filled in, equals a value, or is one of several
+export type FieldCondition = { field: string; equals?: string; in?: string[] };
+
+// Declarative account checks attached to a denial code. "required" fields must be filled in;
+// "before"/"after" compare two date fields once both are filled in.
+export type FieldRule =
+  | { type: "required"; field: string; when?: FieldCondition[]; message?: string }
+  | { type: "before" | "after"; field: string; other: string; when?: FieldCondition[]; message?: string };
+
+// How the guidance panel captures the rep's answer to a question
+export const answerTypes = ["text", "yes_no", "date", "amount", "payer"] as const;
+
+// One step of a call script: a question for the rep and the answers they may give (yes/no or any
+// set of choices), each of which can lead to the id of a follow-up question
+export type QuestionNode = { question: string; answers: { label: string; next?: string }[] };
+
+// A branching call script. Nodes are kept flat and linked by id so the stored JSON stays shallow.
+export type QuestionTree = { start: string; nodes: Record<string, QuestionNode> };
+
+// An answered step of a call script, kept with the account so the route through the script is on record
+export type QuestionPathStep = { nodeId: string; question: string; answer: string };
+
 export const patientAccounts = pgTable("patient_accounts", {
   id: serial("id").primaryKey(),
   patientName: text("patient_name").notNull(),
@@ -15,31 +72,453 @@ export const patientAccounts = pgTable("patient_accounts", {
   insuranceName: text("insurance_name").notNull(),
   repName: text("rep_name"),
   callReference: text("call_reference"),
+  groupCode: text("group_code", { enum: groupCodes }),
+  // The CARC alone, e.g. "45"; the group code says who is liable for it
   denialCode: text("denial_code"),
   denialDescription: text("denial_description"),
+  // RARCs reported alongside the denial code, e.g. ["N130", "M15"]
+  remarkCodes: text("remark_codes").array().notNull().default([]),
   dateOfService: text("date_of_service"),
   eligibilityFromDate: text("eligibility_from_date"),
+  eligibilityTermDate: text("eligibility_term_date"),
   eligibilityStatus: text("eligibility_status"),
+  authorizationNumber: text("authorization_number"),
   additionalNotes: text("additional_notes"),
-  sessionId: text("session_id").notNull(),
+  claimNumber: text("claim_number"),
+  // Claim financials in integer cents
+  billedAmount: integer("billed_amount"),
+  allowedAmount: integer("allowed_amount"),
+  paidAmount: integer("paid_amount"),
+  adjustmentAmount: integer("adjustment_amount"),
+  patientResponsibility: integer("patient_responsibility"),
+  outstandingBalance: integer("outstanding_balance"),
+  questionPath: jsonb("question_path").$type<QuestionPathStep[]>().notNull().default([]),
+  status: text("status", { enum: accountStatuses }).notNull().default("open"),
+  sessionId: text("session_id").notNull().references(() => callSessions.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One service line of the claim behind a patient account. Amounts are integer cents.
+export const claimLines = pgTable("claim_lines", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => patientAccounts.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(),
+  cptCode: text("cpt_code").notNull(),
+  modifiers: text("modifiers").array().notNull().default([]),
+  units: integer("units").notNull().default(1),
+  billedAmount: integer("billed_amount"),
+  allowedAmount: integer("allowed_amount"),
+  paidAmount: integer("paid_amount"),
+  denialCodes: text("denial_codes").array().notNull().default([]),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({
+// Reference catalog behind the denial code picker and the guidance panel, maintained by admins
+export const denialCodes = pgTable("denial_codes", {
+  id: serial("id").primaryKey(),
+  // Guidance written for one group, or for the reason code under any group when null
+  groupCode: text("group_code", { enum: groupCodes }),
+  // The CARC, e.g. "45"
+  code: text("code").notNull(),
+  description: text("description").notNull(),
+  // The code's sentence in generated comments, itself a template, e.g. "Charge exceeds fee schedule"
+  commentSummary: text("comment_summary").notNull().default(""),
+  // Questions to ask the payer rep
+  questions: text("questions").array().notNull().default([]),
+  // Account form fields that must be filled before the call is documented
+  requiredFields: text("required_fields").array().notNull().default([]),
+  nextSteps: text("next_steps").array().notNull().default([]),
+  // Conditional checks on top of `requiredFields`, evaluated in the browser and on every account update
+  fieldRules: jsonb("field_rules").$type<FieldRule[]>().notNull().default([]),
+  // Question text -> answer input; questions not listed take free text
+  questionAnswerTypes: jsonb("question_answer_types").$type<Record<string, typeof answerTypes[number]>>().notNull().default({}),
+  // Branching call script; when set, the guidance panel walks it instead of listing `questions`
+  questionTree: jsonb("question_tree").$type<QuestionTree>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // NULLS NOT DISTINCT so only one entry per code can lack a group code; Postgres otherwise treats nulls as all different
+  unique("denial_codes_group_code_idx").on(table.groupCode, table.code).nullsNotDistinct(),
+]);
+
+// The rep's answer to one guidance question on an account, one row per question
+export const questionAnswers = pgTable("question_answers", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => patientAccounts.id, { onDelete: "cascade" }),
+  question: text("question").notNull(),
+  answerType: text("answer_type", { enum: answerTypes }).notNull().default("text"),
+  // Stored in a canonical form per type: "yes"/"no", YYYY-MM-DD, integer cents, an insuranceOptions value or free text
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("question_answers_account_question_idx").on(table.accountId, table.question)]);
+
+export const overrideModes = ["add", "replace", "reorder"] as const;
+
+// How a payer changes one guidance list: append items, use its own list, or move listed items first
+export type ListOverride = { mode: typeof overrideModes[number]; items: string[] };
+
+// Payer-specific layer over a denial_codes entry; a null list inherits the base guidance unchanged
+export const denialCodeOverrides = pgTable("denial_code_overrides", {
+  id: serial("id").primaryKey(),
+  denialCodeId: integer("denial_code_id").notNull().references(() => denialCodes.id, { onDelete: "cascade" }),
+  // An insuranceOptions value, e.g. "medicare"
+  payer: text("payer").notNull(),
+  questions: jsonb("questions").$type<ListOverride>(),
+  requiredFields: jsonb("required_fields").$type<ListOverride>(),
+  nextSteps: jsonb("next_steps").$type<ListOverride>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("denial_code_overrides_code_payer_idx").on(table.denialCodeId, table.payer)]);
+
+// Wording of generated comments. A template belongs to one organization or to all (null), and to
+// one denial code or to every code (null); the most specific match wins.
+export const commentTemplates = pgTable("comment_templates", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  denialCodeId: integer("denial_code_id").references(() => denialCodes.id, { onDelete: "cascade" }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // NULLS NOT DISTINCT, or any number of templates for all organizations or every code could pile up
+  unique("comment_templates_org_code_idx").on(table.organizationId, table.denialCodeId).nullsNotDistinct(),
+]);
+
+// Shorthand and misspellings expanded when call notes go into a comment. An entry belongs to one
+// organization or to all (null); an organization's entry wins over one for all with the same phrase.
+export const noteDictionary = pgTable("note_dictionary", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").references(() => organizations.id, { onDelete: "cascade" }),
+  // As typed in notes, stored lowercase with single spaces; may span several words, e.g. "paid out"
+  phrase: text("phrase").notNull(),
+  // Written as it should read; all-lowercase replacements follow the case of what was typed
+  replacement: text("replacement").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // NULLS NOT DISTINCT so a phrase has one entry for all organizations, not one per insert
+  unique("note_dictionary_org_phrase_idx").on(table.organizationId, table.phrase).nullsNotDistinct(),
+]);
+
+export const commentSources = ["generated", "edited"] as const;
+
+// Every comment produced or hand-edited for an account, newest last. The finalized one is what was
+// pasted into the billing system and what exports report.
+export const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => patientAccounts.id, { onDelete: "cascade" }),
+  // Encrypted like other PHI; comments quote the patient's details
+  body: text("body").notNull(),
+  source: text("source", { enum: commentSources }).notNull().default("generated"),
+  // For hand edits, the generated comment the caller started from; diffing the two shows what the generator got wrong
+  generatedFromId: integer("generated_from_id").references((): AnyPgColumn => comments.id, { onDelete: "set null" }),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  // Stored template the comment was rendered from; null for the built-in default and for hand edits
+  templateId: integer("template_id").references(() => commentTemplates.id, { onDelete: "set null" }),
+  // Target-system format id from shared/comment-formats.ts
+  format: text("format"),
+  finalizedAt: timestamp("finalized_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [index("comments_account_idx").on(table.accountId)]);
+
+export const reasonCodeTypes = ["carc", "rarc"] as const;
+
+// Full X12 Claim Adjustment Reason Code and Remittance Advice Remark Code lists, imported from
+// the published CSV files. Unlike denial_codes these carry no guidance, only the official wording.
+export const reasonCodes = pgTable("reason_codes", {
+  id: serial("id").primaryKey(),
+  type: text("type", { enum: reasonCodeTypes }).notNull(),
+  code: text("code").notNull(),
+  description: text("description").notNull(),
+  startDate: text("start_date"),
+  // Set once the code is deactivated; old remits can still carry it
+  stopDate: text("stop_date"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("reason_codes_type_code_idx").on(table.type, table.code)]);
+
+export const auditActions = ["read", "create", "update", "delete", "export"] as const;
+
+// Field name -> value before and after an update
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Append-only trail of who touched which patient account. Rows are never deleted, and the only update is
+// key rotation re-encrypting the PHI inside `changes`, which leaves what each row records unchanged.
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  action: text("action", { enum: auditActions }).notNull(),
+  // Not a foreign key so the trail outlives deleted accounts
+  accountId: integer("account_id"),
+  sessionId: text("session_id"),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+  password: (schema) => schema.min(8, "Password must be at least 8 characters"),
+}).omit({
   id: true,
 });
 
-export const insertPatientAccountSchema = createInsertSchema(patientAccounts).omit({
+export const updateUserSchema = insertUserSchema.omit({ username: true }).partial();
+
+export const insertClaimLineSchema = createInsertSchema(claimLines, {
+  lineNumber: (schema) => schema.int().min(1),
+  cptCode: (schema) => schema.trim().regex(/^[A-Za-z0-9]{5}$/, "CPT/HCPCS code must be 5 characters"),
+  modifiers: (schema) => schema.max(4, "A line can carry at most 4 modifiers").optional(),
+  units: (schema) => schema.int().min(1, "Units must be at least 1").optional(),
+  billedAmount: (schema) => schema.int().min(0).optional(),
+  allowedAmount: (schema) => schema.int().min(0).optional(),
+  paidAmount: (schema) => schema.int().min(0).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Lines stay on the account they were created for
+export const updateClaimLineSchema = insertClaimLineSchema.omit({ accountId: true }).partial();
+
+export const questionTreeSchema = z.object({
+  start: z.string(),
+  nodes: z.record(z.object({
+    question: z.string().trim().min(1, "Every step needs a question"),
+    answers: z.array(z.object({
+      label: z.string().trim().min(1, "Every answer needs a label"),
+      next: z.string().optional(),
+    })).min(1, "Every question needs at least one answer"),
+  })),
+}).superRefine((tree, ctx) => {
+  const treeError = questionTreeError(tree);
+  if (treeError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: treeError });
+  }
+});
+
+export const questionPathStepSchema = z.object({
+  nodeId: z.string(),
+  question: z.string(),
+  answer: z.string(),
+});
+
+const fieldConditionSchema = z.object({
+  field: z.string().min(1),
+  equals: z.string().optional(),
+  in: z.array(z.string()).optional(),
+});
+
+export const fieldRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("required"),
+    field: z.string().min(1),
+    when: z.array(fieldConditionSchema).optional(),
+    message: z.string().trim().optional(),
+  }),
+  z.object({
+    type: z.enum(["before", "after"]),
+    field: z.string().min(1),
+    other: z.string().min(1),
+    when: z.array(fieldConditionSchema).optional(),
+    message: z.string().trim().optional(),
+  }),
+]);
+
+export const insertDenialCodeSchema = createInsertSchema(denialCodes, {
+  code: (schema) => schema.trim().toUpperCase().min(1, "Code is required"),
+  description: (schema) => schema.trim().min(1, "Description is required"),
+  commentSummary: (schema) => schema.trim().optional(),
+  questions: (schema) => schema.optional(),
+  requiredFields: (schema) => schema.optional(),
+  nextSteps: (schema) => schema.optional(),
+  fieldRules: z.array(fieldRuleSchema).optional(),
+  questionAnswerTypes: z.record(z.enum(answerTypes)).optional(),
+  questionTree: questionTreeSchema.nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const updatePatientAccountSchema = insertPatientAccountSchema.partial();
+export const updateDenialCodeSchema = insertDenialCodeSchema.partial();
+
+// An empty value clears the answer, so only non-empty values are checked against their type
+export const insertQuestionAnswerSchema = createInsertSchema(questionAnswers, {
+  question: (schema) => schema.trim().min(1, "Question is required"),
+  value: (schema) => schema.trim(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).superRefine((answer, ctx) => {
+  const patterns: Partial<Record<typeof answerTypes[number], [RegExp, string]>> = {
+    yes_no: [/^(yes|no)$/, "Answer must be yes or no"],
+    date: [/^\d{4}-\d{2}-\d{2}$/, "Answer must be a date (YYYY-MM-DD)"],
+    amount: [/^-?\d+$/, "Answer must be an amount in cents"],
+  };
+  const check = patterns[answer.answerType ?? "text"];
+  if (answer.value && check && !check[0].test(answer.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: check[1], path: ["value"] });
+  }
+});
+
+export const listOverrideSchema = z.object({
+  mode: z.enum(overrideModes),
+  items: z.array(z.string().trim().min(1)),
+});
+
+export const insertDenialCodeOverrideSchema = z.object({
+  denialCodeId: z.number().int(),
+  payer: z.string().trim().min(1, "Payer is required"),
+  questions: listOverrideSchema.nullable().optional(),
+  requiredFields: listOverrideSchema.nullable().optional(),
+  nextSteps: listOverrideSchema.nullable().optional(),
+});
+
+// An override stays attached to its code and payer; create a new one to move it
+export const updateDenialCodeOverrideSchema = insertDenialCodeOverrideSchema.omit({ denialCodeId: true, payer: true }).partial();
+
+export const insertOrganizationSchema = createInsertSchema(organizations, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCommentTemplateSchema = z.object({
+  organizationId: z.number().int().nullable(),
+  denialCodeId: z.number().int().nullable(),
+  body: z.string().trim().min(1, "Template is required"),
+});
+
+// A template stays attached to its organization and code; only the wording changes
+export const updateCommentTemplateSchema = insertCommentTemplateSchema.pick({ body: true });
+
+export const insertNoteDictionaryEntrySchema = z.object({
+  organizationId: z.number().int().nullable(),
+  phrase: z.string().trim().min(1, "Phrase is required").transform((phrase) => phrase.replace(/\s+/g, " ").toLowerCase()),
+  replacement: z.string().trim().min(1, "Replacement is required"),
+});
+
+// An entry stays with its organization; the phrase and replacement can change
+export const updateNoteDictionaryEntrySchema = insertNoteDictionaryEntrySchema.omit({ organizationId: true }).partial();
+
+// The account comes from the URL and the author from the signed-in user
+export const insertCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment is required"),
+  source: z.enum(commentSources).default("generated"),
+  templateId: z.number().int().nullable().optional(),
+  generatedFromId: z.number().int().nullable().optional(),
+  format: z.enum(commentFormatIds).nullable().optional(),
+  finalized: z.boolean().optional(),
+});
+
+export const reasonCodeQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  type: z.enum(reasonCodeTypes).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export const auditQuerySchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  accountId: z.coerce.number().int().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const insertCallSessionSchema = createInsertSchema(callSessions).omit({
+  id: true,
+  userId: true,
+  status: true,
+  startedAt: true,
+  endedAt: true,
+});
+
+const patientAccountFieldsSchema = createInsertSchema(patientAccounts, {
+  remarkCodes: (schema) => schema.optional(),
+  questionPath: z.array(questionPathStepSchema).optional(),
+  billedAmount: (schema) => schema.int().min(0).optional(),
+  allowedAmount: (schema) => schema.int().min(0).optional(),
+  paidAmount: (schema) => schema.int().min(0).optional(),
+  adjustmentAmount: (schema) => schema.int().optional(),
+  patientResponsibility: (schema) => schema.int().min(0).optional(),
+  outstandingBalance: (schema) => schema.int().optional(),
+}).omit({
+  id: true,
+  // Status only changes through its own route, which checks the required fields first
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPatientAccountSchema = patientAccountFieldsSchema.superRefine((account, ctx) => {
+  const balanceError = claimBalanceError(account);
+  if (balanceError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: balanceError, path: ["billedAmount"] });
+  }
+});
+
+// Accounts stay on the call they were created in. Updates are partial, so the balance check
+// runs against the merged account in the route instead.
+export const updatePatientAccountSchema = patientAccountFieldsSchema.omit({ sessionId: true }).partial();
+
+export const accountStatusSchema = z.object({
+  status: z.enum(accountStatuses),
+});
 
+export type UserRole = typeof userRoles[number];
+export type GroupCode = typeof groupCodes[number];
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+// Audit events are only ever written by the server, so there is no request schema for them
+export type InsertAuditEvent = Omit<typeof auditEvents.$inferInsert, "id" | "createdAt">;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type InsertClaimLine = z.infer<typeof insertClaimLineSchema>;
+export type UpdateClaimLine = z.infer<typeof updateClaimLineSchema>;
+export type ClaimLine = typeof claimLines.$inferSelect;
+export type InsertDenialCode = z.infer<typeof insertDenialCodeSchema>;
+export type UpdateDenialCode = z.infer<typeof updateDenialCodeSchema>;
+export type DenialCode = typeof denialCodes.$inferSelect;
+export type AnswerType = typeof answerTypes[number];
+export type InsertQuestionAnswer = z.infer<typeof insertQuestionAnswerSchema>;
+export type QuestionAnswer = typeof questionAnswers.$inferSelect;
+export type OverrideMode = typeof overrideModes[number];
+export type InsertDenialCodeOverride = z.infer<typeof insertDenialCodeOverrideSchema>;
+export type UpdateDenialCodeOverride = z.infer<typeof updateDenialCodeOverrideSchema>;
+export type DenialCodeOverride = typeof denialCodeOverrides.$inferSelect;
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+export type Organization = typeof organizations.$inferSelect;
+export type InsertCommentTemplate = z.infer<typeof insertCommentTemplateSchema>;
+export type UpdateCommentTemplate = z.infer<typeof updateCommentTemplateSchema>;
+export type CommentTemplate = typeof commentTemplates.$inferSelect;
+export type InsertNoteDictionaryEntry = z.infer<typeof insertNoteDictionaryEntrySchema>;
+export type UpdateNoteDictionaryEntry = z.infer<typeof updateNoteDictionaryEntrySchema>;
+export type NoteDictionaryEntry = typeof noteDictionary.$inferSelect;
+export type CommentSource = typeof commentSources[number];
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+export type AccountComment = typeof comments.$inferSelect;
+// A comment with its author's username for the history list
+export type AccountCommentEntry = AccountComment & { authorName: string | null };
+export type ReasonCodeType = typeof reasonCodeTypes[number];
+// Reason codes are only written by the CSV importer
+export type InsertReasonCode = Omit<typeof reasonCodes.$inferInsert, "id" | "updatedAt">;
+export type ReasonCode = typeof reasonCodes.$inferSelect;
+export type ReasonCodeQuery = z.infer<typeof reasonCodeQuerySchema>;
+export type InsertCallSession = z.infer<typeof insertCallSessionSchema>;
+export type CallSession = typeof callSessions.$inferSelect;
+export type CallSessionSummary = CallSession & { accountCount: number; repName: string | null };
 export type InsertPatientAccount = z.infer<typeof insertPatientAccountSchema>;
 export type UpdatePatientAccount = z.infer<typeof updatePatientAccountSchema>;
 export type PatientAccount = typeof patientAccounts.$inferSelect;
+export type AccountStatus = typeof accountStatuses[number];
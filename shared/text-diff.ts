@@ -0,0 +1,42 @@
+export type DiffPart = { kind: "same" | "added" | "removed"; text: string };
+
+// Word-level diff of two texts via longest common subsequence. Whitespace travels with the word
+// before it, and unchanged words keep the new text's spacing, so the same and added parts join
+// back into `after`.
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\S+\s*|\s+/g) ?? [];
+  const b = after.match(/\S+\s*|\s+/g) ?? [];
+  // Compare words without their trailing whitespace so a rewrapped line isn't a change
+  const same = (i: number, j: number) => a[i].trimEnd() === b[j].trimEnd();
+
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = same(i, j) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart["kind"], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (same(i, j)) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+  return parts;
+}
@@ -0,0 +1,228 @@
+import type { AnswerType, GroupCode } from "./schema";
+import { isGroupCode } from "./group-codes";
+import { parseDollars } from "./money";
+import { extractNoteEntities, type PayerOption } from "./note-entities";
+
+// One speaker's turn in a call transcript; unlabeled lines belong to the turn above them
+export type TranscriptTurn = { speaker: string; text: string };
+
+// Account fields a transcript can fill directly
+export type TranscriptField = "repName" | "callReference" | "eligibilityFromDate" | "eligibilityTermDate";
+
+// A value read from the transcript, with the line it came from so the caller can check it before applying
+export type TranscriptProposal =
+  | { kind: "field"; field: TranscriptField; value: string; evidence: string }
+  | { kind: "denialCode"; groupCode: GroupCode | null; code: string; evidence: string }
+  // Values are stored the way the answers API takes them: yes/no, YYYY-MM-DD, cents, payer option value
+  | { kind: "answer"; question: string; answerType: AnswerType; value: string; evidence: string };
+
+export interface TranscriptContext {
+  // The current denial code's questions and their answer types
+  questions: string[];
+  answerTypes: Record<string, AnswerType>;
+  payers: PayerOption[];
+}
+
+// "Rep: ...", "[00:01:22] Jane (Aetna): ...", "Speaker 2 - 01:22: ..."
+const turnPattern = /^\s*(?:[[(]?\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]M)?[\])]?\s*[-–]?\s*)?([A-Za-z][A-Za-z0-9.'-]*(?:\s+[A-Za-z0-9][A-Za-z0-9.'-]*){0,2})\s*(?:\([^)]{0,40}\))?\s*(?:[-–]\s*[[(]?\d{1,2}:\d{2}(?::\d{2})?[\])]?\s*)?:\s*(.*)$/;
+
+const repLabels = /^(?:rep|representative|agent|payer|insurance|csr|customer service|associate|advocate|provider services)\b/i;
+const callerLabels = /^(?:caller|me|biller|provider|office|billing|ar|specialist|user|you)\b/i;
+const repGreetings = /\b(?:thank you for calling|thanks for calling|my name is|you(?:'ve| have) reached|how (?:can|may) i (?:help|assist))\b/i;
+
+export function parseTranscript(text: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const match = line.match(turnPattern);
+    if (match && match[2].trim()) {
+      turns.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+  return turns;
+}
+
+export function transcriptSpeakers(turns: TranscriptTurn[]): string[] {
+  return Array.from(new Set(turns.map((turn) => turn.speaker)));
+}
+
+// The payer rep is whoever is labeled as one, else whoever greets the caller, else whoever answered the phone
+export function detectRepSpeaker(turns: TranscriptTurn[]): string | null {
+  const speakers = transcriptSpeakers(turns);
+  const labeled = speakers.find((speaker) => repLabels.test(speaker));
+  if (labeled) return labeled;
+  const greeter = turns.find((turn) => repGreetings.test(turn.text) && !callerLabels.test(turn.speaker));
+  if (greeter) return greeter.speaker;
+  return speakers.find((speaker) => !callerLabels.test(speaker)) ?? null;
+}
+
+const digitWords: Record<string, string> = {
+  zero: "0", oh: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+};
+const digitWord = `(?:${Object.keys(digitWords).join("|")})`;
+
+// Reps read numbers out a digit at a time; "4 5 6 7" and "four five six seven" become "4567"
+function joinSpokenDigits(text: string): string {
+  return text
+    .replace(new RegExp(String.raw`\b${digitWord}(?:[\s,-]+${digitWord}){3,}\b`, "gi"), (spoken) =>
+      spoken.split(/[\s,-]+/).map((word) => digitWords[word.toLowerCase()]).join(""))
+    .replace(/\b\d(?:[\s,-]+\d\b){3,}/g, (spoken) => spoken.replace(/[\s,-]+/g, ""));
+}
+
+const notAName = new Set(["How", "And", "With", "From", "At", "I", "Can", "What", "Thank", "Thanks", "Who", "Please", "The", "Is"]);
+
+function findRepName(repTurns: TranscriptTurn[], repSpeaker: string | null, payers: PayerOption[]): { value: string; evidence: string } | null {
+  const payerNames = new Set(payers.flatMap((payer) => [payer.value, payer.label].map((name) => name.toLowerCase())));
+  const introduction = /\b(?:[Mm]y name(?:'s| is)|[Tt]his is|[Yy]ou(?:'re| are) speaking (?:with|to)|[Ss]peaking with)\s+([A-Z][a-z]+)(?:\s+([A-Z](?:[a-z]+|\.)))?/;
+  for (const turn of repTurns) {
+    const match = turn.text.match(introduction);
+    if (!match || notAName.has(match[1]) || payerNames.has(match[1].toLowerCase())) continue;
+    const name = match[2] && !notAName.has(match[2]) ? `${match[1]} ${match[2]}` : match[1];
+    return { value: name, evidence: turn.text };
+  }
+  // A transcript labeled with the rep's own name
+  if (repSpeaker && !repLabels.test(repSpeaker) && !/^speaker\b/i.test(repSpeaker)) {
+    return { value: repSpeaker, evidence: `Speaker "${repSpeaker}"` };
+  }
+  return null;
+}
+
+const referenceWords = /\b(?:call\s+)?(?:ref(?:erence)?|confirmation|conf|ticket|call id|interaction)\b/i;
+const referenceNumber = /\b((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{2,}[A-Z0-9])\b/i;
+
+// "the reference number for this call is 12345", or the rep's reply when the caller asks for one.
+// The number must have a digit in it.
+function findCallReference(turns: TranscriptTurn[], repSpeaker: string | null): { value: string; evidence: string } | null {
+  const stated = new RegExp(`${referenceWords.source}[^.?!]{0,40}?${referenceNumber.source}`, "i");
+  for (const turn of turns.filter((turn) => turn.speaker === repSpeaker)) {
+    const match = turn.text.match(stated);
+    if (match) return { value: match[1].toUpperCase(), evidence: turn.text };
+  }
+  for (let index = 0; index < turns.length - 1; index++) {
+    const [turn, reply] = [turns[index], turns[index + 1]];
+    if (turn.speaker === repSpeaker || reply.speaker !== repSpeaker || !referenceWords.test(turn.text)) continue;
+    const match = reply.text.match(referenceNumber);
+    if (match) return { value: match[1].toUpperCase(), evidence: reply.text };
+  }
+  for (const turn of turns) {
+    const labeled = extractNoteEntities(turn.text).find((entity) => entity.kind === "reference");
+    if (labeled) return { value: labeled.value, evidence: turn.text };
+  }
+  return null;
+}
+
+function findDenialCode(turns: TranscriptTurn[]): { groupCode: GroupCode | null; code: string; evidence: string } | null {
+  const withGroup = /\b(CO|PR|OA|PI|CR)\s*-?\s*([A-Z]?\d{1,3})\b/i;
+  const spoken = /\b(?:denial|reason|adjustment|carc)\s+code\s+(?:is\s+|was\s+|of\s+)?([A-Z]?\d{1,3})\b/i;
+  for (const turn of turns) {
+    const grouped = turn.text.match(withGroup);
+    const groupCode = grouped?.[1].toUpperCase() ?? "";
+    if (grouped && isGroupCode(groupCode)) return { groupCode, code: grouped[2].toUpperCase(), evidence: turn.text };
+    const bare = turn.text.match(spoken);
+    if (bare) return { groupCode: null, code: bare[1].toUpperCase(), evidence: turn.text };
+  }
+  return null;
+}
+
+function findEligibilityDates(turns: TranscriptTurn[]): TranscriptProposal[] {
+  const proposals: TranscriptProposal[] = [];
+  for (const field of ["eligibilityFromDate", "eligibilityTermDate"] as const) {
+    for (const turn of turns) {
+      const date = extractNoteEntities(turn.text).find((entity) => entity.kind === "date" && entity.fields[0] === field);
+      if (date) {
+        proposals.push({ kind: "field", field, value: date.value, evidence: turn.text });
+        break;
+      }
+    }
+  }
+  return proposals;
+}
+
+const stopWords = new Set([
+  "the", "was", "were", "did", "does", "what", "when", "how", "you", "your", "this", "that", "for", "and", "any", "are",
+  "there", "have", "has", "with", "can", "could", "would", "please", "which", "who", "why", "its", "from", "about",
+]);
+
+const keywords = (text: string) =>
+  new Set(text.toLowerCase().match(/[a-z0-9]+/g)?.filter((word) => word.length > 2 && !stopWords.has(word)) ?? []);
+
+// The answer to a script question in the form the answers API stores, or null when the reply doesn't give one
+function answerValue(reply: string, answerType: AnswerType, payers: PayerOption[]): string | null {
+  switch (answerType) {
+    case "yes_no": {
+      const yes = reply.search(/\b(?:yes|yeah|yep|correct|that's right|it is|it was|it does|it did|we do|we did|sure)\b/i);
+      const no = reply.search(/\b(?:no|nope|not|never|negative|isn't|wasn't|doesn't|didn't|don't)\b/i);
+      if (yes === -1 && no === -1) return null;
+      return no === -1 || (yes !== -1 && yes < no) ? "yes" : "no";
+    }
+    case "date": {
+      const date = extractNoteEntities(reply).find((entity) => entity.kind === "date");
+      if (!date) return null;
+      const [month, day, year] = date.value.split("/");
+      return `${year}-${month}-${day}`;
+    }
+    case "amount": {
+      const amount = extractNoteEntities(reply).find((entity) => entity.kind === "amount");
+      // "Zero, billed was $250" answers with nothing paid
+      const zero = reply.search(/\b(?:zero|nothing|none)\b/i);
+      if (zero !== -1 && (!amount || zero < amount.index)) return "0";
+      const cents = amount ? parseDollars(amount.value) : null;
+      return cents == null ? null : String(cents);
+    }
+    case "payer":
+      return extractNoteEntities(reply, payers).find((entity) => entity.kind === "payer")?.value ?? null;
+    default:
+      return reply.trim() || null;
+  }
+}
+
+// For each question, the caller's turn that asks it (most of the question's keywords, at least half)
+// and everything the rep says before the caller speaks again
+function findAnswers(turns: TranscriptTurn[], repSpeaker: string | null, context: TranscriptContext): TranscriptProposal[] {
+  const proposals: TranscriptProposal[] = [];
+  for (const question of context.questions) {
+    const wanted = keywords(question);
+    if (wanted.size === 0) continue;
+    let best: { index: number; score: number } | null = null;
+    for (let index = 0; index < turns.length; index++) {
+      if (turns[index].speaker === repSpeaker) continue;
+      const asked = keywords(turns[index].text);
+      const score = Array.from(wanted).filter((word) => asked.has(word)).length / wanted.size;
+      if (score >= 0.5 && (!best || score > best.score)) best = { index, score };
+    }
+    if (!best) continue;
+
+    const replies: string[] = [];
+    for (const turn of turns.slice(best.index + 1)) {
+      if (turn.speaker !== repSpeaker) break;
+      replies.push(turn.text);
+    }
+    const reply = replies.join(" ");
+    const answerType = context.answerTypes[question] ?? "text";
+    const value = reply ? answerValue(reply, answerType, context.payers) : null;
+    if (value) proposals.push({ kind: "answer", question, answerType, value, evidence: reply });
+  }
+  return proposals;
+}
+
+// Everything a transcript says that belongs on the account: the rep's name, the call reference, the
+// denial code, eligibility dates and answers to the current code's questions. Runs entirely in the browser.
+export function readTranscript(turns: TranscriptTurn[], repSpeaker: string | null, context: TranscriptContext): TranscriptProposal[] {
+  const spoken = turns.map((turn) => ({ ...turn, text: joinSpokenDigits(turn.text) }));
+  const repTurns = spoken.filter((turn) => turn.speaker === repSpeaker);
+  // What the rep says wins over what the caller reads back
+  const repFirst = [...repTurns, ...spoken.filter((turn) => turn.speaker !== repSpeaker)];
+
+  const proposals: TranscriptProposal[] = [];
+  const repName = findRepName(repTurns, repSpeaker, context.payers);
+  if (repName) proposals.push({ kind: "field", field: "repName", ...repName });
+  const callReference = findCallReference(spoken, repSpeaker);
+  if (callReference) proposals.push({ kind: "field", field: "callReference", ...callReference });
+  const denialCode = findDenialCode(repFirst);
+  if (denialCode) proposals.push({ kind: "denialCode", ...denialCode });
+  proposals.push(...findEligibilityDates(repFirst));
+  proposals.push(...findAnswers(spoken, repSpeaker, context));
+  return proposals;
+}